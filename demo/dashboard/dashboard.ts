@@ -1,5 +1,5 @@
-import { h, mount } from '../../src/index.js';
-import type { VNode } from '../../src/index.js';
+import { animationFrameScheduler, h, mount } from '../../src/index.js';
+import type { ComponentProps, VNode } from '../../src/index.js';
 import type { RendererMetrics, PatchHistoryEntry } from '../../src/renderer/metrics.js';
 
 // ==================== STATE ====================
@@ -66,7 +66,11 @@ function getPatchDescription(entry: PatchHistoryEntry): string {
  * Small reusable metric card.
  * Displays a single metric value.
  */
-function MetricCard(label: string, value: string, unit: string): VNode {
+function MetricCard({
+  label,
+  value,
+  unit
+}: ComponentProps<{ label: string; value: string; unit: string }>): VNode {
   return h('div', { class: 'metric-card' }, [
     h('div', { class: 'metric-label' }, label),
     h('div', { class: 'metric-value' }, value),
@@ -80,7 +84,9 @@ function MetricCard(label: string, value: string, unit: string): VNode {
  * Displays the most recent patch operations
  * in reverse chronological order.
  */
-function PatchTimeline(history: PatchHistoryEntry[]): VNode {
+function PatchTimeline({
+  history
+}: ComponentProps<{ history: PatchHistoryEntry[] }>): VNode {
   // Show last 15 patches in reverse order (newest first)
   const recent = history.slice(-15).reverse();
   
@@ -114,7 +120,9 @@ function PatchTimeline(history: PatchHistoryEntry[]): VNode {
  * Shows the distribution of patch types
  * using horizontal bars.
  */
-function PatchHeatmap(metrics: RendererMetrics): VNode {
+function PatchHeatmap({
+  metrics
+}: ComponentProps<{ metrics: RendererMetrics }>): VNode {
   const patchTypes: Array<keyof RendererMetrics['patches']['byType']> = [
     'INSERT',
     'REMOVE', 
@@ -154,10 +162,13 @@ function PatchHeatmap(metrics: RendererMetrics): VNode {
 /**
  * Live Chart Component.
  *
- * Displays recent update durations as vertical bars.
+ * Displays recent update durations as vertical bars,
+ * drawn as an SVG that scales with its container.
  * Includes a simple Y-axis for scale.
  */
-function LiveChart(durations: number[]): VNode {
+function LiveChart({
+  durations
+}: ComponentProps<{ durations: number[] }>): VNode {
   const recentDurations = durations.slice(-20);
   const maxDuration = Math.max(...recentDurations, 0.1);
   
@@ -168,14 +179,20 @@ function LiveChart(durations: number[]): VNode {
     return value.toFixed(2);
   });
 
+  // Bars are drawn in a 10-unit wide slot each, on a 0–100 scale
+  // that the SVG stretches to fill the chart area
   const bars = recentDurations.map((duration, index) => {
-    const heightPercent = (duration / maxDuration) * 100;
-    return h('div', { 
+    const height = Math.max((duration / maxDuration) * 100, 1);
+    return h('rect', {
       class: 'chart-bar',
       key: index,
-      style: `height: ${heightPercent}%`,
-      'data-value': `${duration.toFixed(2)}ms`
-    });
+      x: index * 10 + 1,
+      y: 100 - height,
+      width: 8,
+      height
+    }, [
+      h('title', null, `${duration.toFixed(2)}ms`)
+    ]);
   });
 
   return h('div', { class: 'chart-container' }, [
@@ -188,7 +205,11 @@ function LiveChart(durations: number[]): VNode {
       ),
       // Main chart area
       h('div', { class: 'chart-main' }, [
-        h('div', { class: 'chart-bars' }, bars),
+        h('svg', {
+          class: 'chart-bars',
+          viewBox: `0 0 ${Math.max(recentDurations.length, 1) * 10} 100`,
+          preserveAspectRatio: 'none'
+        }, bars),
         // X-axis label
         h('div', { class: 'chart-x-axis' }, [
           h('div', { class: 'chart-x-label' }, `Last ${recentDurations.length} updates`)
@@ -204,11 +225,15 @@ function LiveChart(durations: number[]): VNode {
  * A simple counter that triggers real VDOM updates.
  * Used to generate live metrics.
  */
-function InteractiveDemo(
-  counter: number, 
-  onIncrement: () => void, 
-  onDecrement: () => void
-): VNode {
+function InteractiveDemo({
+  counter,
+  onIncrement,
+  onDecrement
+}: ComponentProps<{
+  counter: number;
+  onIncrement: () => void;
+  onDecrement: () => void;
+}>): VNode {
   return h('div', { class: 'demo-container' }, [
     h('div', { class: 'demo-counter' }, String(counter)),
     h('div', { class: 'demo-controls' }, [
@@ -231,14 +256,18 @@ function InteractiveDemo(
  *
  * Composes all sections into a single layout.
  */
-function Dashboard(
-  metrics: RendererMetrics,
-  counter: number,
-  handlers: { 
-    onIncrement: () => void; 
+function Dashboard({
+  metrics,
+  counter,
+  handlers
+}: ComponentProps<{
+  metrics: RendererMetrics;
+  counter: number;
+  handlers: {
+    onIncrement: () => void;
     onDecrement: () => void;
-  }
-): VNode {
+  };
+}>): VNode {
   return h('div', { class: 'dashboard-container' }, [
     // Header
     h('div', { class: 'dashboard-header' }, [
@@ -250,35 +279,39 @@ function Dashboard(
     h('div', { class: 'section metrics-section' }, [
       h('div', { class: 'section-title' }, 'Performance Metrics'),
       h('div', { class: 'metrics-grid' }, [
-        MetricCard('Updates', String(metrics.updates + 1), 'total'),
-        MetricCard('Avg Time', metrics.avgUpdateDurationMs.toFixed(2), 'ms'),
-        MetricCard('Active Nodes', String(metrics.nodes.active), 'nodes'),
-        MetricCard('Total Patches', String(metrics.patches.total), 'ops')
+        h(MetricCard, { label: 'Updates', value: String(metrics.updates + 1), unit: 'total' }),
+        h(MetricCard, { label: 'Avg Time', value: metrics.avgUpdateDurationMs.toFixed(2), unit: 'ms' }),
+        h(MetricCard, { label: 'Active Nodes', value: String(metrics.nodes.active), unit: 'nodes' }),
+        h(MetricCard, { label: 'Total Patches', value: String(metrics.patches.total), unit: 'ops' })
       ])
     ]),
 
     // Patch Timeline
     h('div', { class: 'section timeline-section' }, [
       h('div', { class: 'section-title' }, 'Patch Timeline'),
-      PatchTimeline(metrics.patchHistory)
+      h(PatchTimeline, { history: metrics.patchHistory })
     ]),
 
     // Patch Heatmap
     h('div', { class: 'section heatmap-section' }, [
       h('div', { class: 'section-title' }, 'Patch Operations'),
-      PatchHeatmap(metrics)
+      h(PatchHeatmap, { metrics })
     ]),
 
     // Duration Chart
     h('div', { class: 'section chart-section' }, [
       h('div', { class: 'section-title' }, 'Update Duration Trend'),
-      LiveChart(metrics.history.durations)
+      h(LiveChart, { durations: metrics.history.durations })
     ]),
 
     // Interactive Demo
     h('div', { class: 'section demo-section' }, [
       h('div', { class: 'section-title' }, 'Interactive Demo'),
-      InteractiveDemo(counter, handlers.onIncrement, handlers.onDecrement)
+      h(InteractiveDemo, {
+        counter,
+        onIncrement: handlers.onIncrement,
+        onDecrement: handlers.onDecrement
+      })
     ])
   ]);
 }
@@ -293,18 +326,23 @@ function renderDashboard(): void {
 
   const metrics = dashboardRoot.metrics;
 
-  const vnode = Dashboard(metrics, demoCounter, {
-    onIncrement: () => {
-      demoCounter++;
-      requestAnimationFrame(() => renderDashboard());
-    },
-    onDecrement: () => {
-      demoCounter--;
-      requestAnimationFrame(() => renderDashboard());
+  const vnode = h(Dashboard, {
+    metrics,
+    counter: demoCounter,
+    handlers: {
+      onIncrement: () => {
+        demoCounter++;
+        renderDashboard();
+      },
+      onDecrement: () => {
+        demoCounter--;
+        renderDashboard();
+      }
     }
   });
 
-  dashboardRoot.update(vnode);
+  // Clicks within one frame collapse into a single render
+  dashboardRoot.scheduleUpdate(vnode);
 }
 
 // ==================== INITIALIZATION ====================
@@ -328,7 +366,9 @@ function init(): void {
   ]);
 
   // Mount and obtain root controller
-  dashboardRoot = mount(initialVNode, container as HTMLElement);
+  dashboardRoot = mount(initialVNode, container as HTMLElement, {
+    scheduler: animationFrameScheduler
+  });
 
   // Render real dashboard immediately
   renderDashboard();
@@ -0,0 +1,93 @@
+import type { Component, VNode } from './types.js';
+import type { ComponentInstance } from './component.js';
+import { getCurrentInstance, getInstance, renderComponent } from './component.js';
+import { createVNode } from './vnode.js';
+import { Fragment } from './fragment.js';
+import { recordUndo } from './journal.js';
+
+/**
+ * Props of an error boundary.
+ *
+ * - fallback: rendered instead of the children once an error
+ *   was caught; `reset()` renders the children again
+ * - onError: called with every caught error
+ */
+export interface ErrorBoundaryProps {
+  fallback: (error: unknown, reset: () => void) => VNode | null;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Errors caught by boundary instances.
+ *
+ * A boundary shows its fallback while it has an entry.
+ */
+const caughtErrors = new WeakMap<ComponentInstance, unknown>();
+
+/**
+ * Error boundary component.
+ *
+ * h(ErrorBoundary, { fallback: error => h('p', null, 'Failed') },
+ *   h(Widget, null)
+ * )
+ *
+ * Errors thrown while rendering, creating or patching its
+ * children (components, lifecycle hooks, effects and host
+ * operations) replace the children with the fallback.
+ * Errors thrown by the fallback itself reach the next
+ * boundary up.
+ */
+export const ErrorBoundary: Component<ErrorBoundaryProps> = props => {
+  const instance = getCurrentInstance();
+
+  if (caughtErrors.has(instance)) {
+    return props.fallback(caughtErrors.get(instance), () =>
+      resetBoundary(instance)
+    );
+  }
+
+  return createVNode(Fragment, null, props.children);
+};
+
+/**
+ * Whether a VNode is an error boundary.
+ */
+export function isBoundary(vnode: VNode): boolean {
+  return vnode.type === ErrorBoundary;
+}
+
+/**
+ * Whether a boundary VNode is showing its fallback.
+ *
+ * Such a boundary passes new errors on to its parents.
+ */
+export function hasCaught(vnode: VNode): boolean {
+  const instance = getInstance(vnode);
+  return instance !== null && caughtErrors.has(instance);
+}
+
+/**
+ * Store an error on a boundary and render its fallback.
+ *
+ * Returns the fallback output, which replaces
+ * the boundary's previous output.
+ */
+export function catchError(vnode: VNode, error: unknown): VNode | null {
+  const instance = getInstance(vnode)!;
+  caughtErrors.set(instance, error);
+  recordUndo(() => caughtErrors.delete(instance));
+
+  (vnode.props as unknown as ErrorBoundaryProps).onError?.(error);
+
+  return renderComponent(vnode);
+}
+
+/**
+ * Drop the caught error and render the children again.
+ */
+function resetBoundary(instance: ComponentInstance): void {
+  if (!instance.mounted || !caughtErrors.delete(instance)) return;
+
+  instance.dirty = true;
+  instance.scheduleUpdate?.();
+}
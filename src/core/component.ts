@@ -0,0 +1,169 @@
+import type { Component, VNode } from './types.js';
+import type { ContextScope, ProviderState } from './context.js';
+import { recordUndo } from './journal.js';
+
+/**
+ * State of a mounted component.
+ *
+ * Instances outlive individual VNodes: every re-render
+ * hands the instance over from the old VNode to the new one.
+ */
+export interface ComponentInstance {
+  // VNode the instance last rendered for
+  vnode: VNode;
+
+  // Hook slots, in call order
+  slots: unknown[];
+
+  // Index of the next hook slot during render
+  slotIndex: number;
+
+  // True when state changed since the last render
+  dirty: boolean;
+
+  // False once the component has been removed
+  mounted: boolean;
+
+  // Providers above the component, as of its last render
+  scope: ContextScope | null;
+
+  // Context values read during the last render
+  contexts: Map<ProviderState, unknown>;
+
+  /**
+   * Ask the owning renderer to re-render this instance.
+   * Attached by the renderer when the component is mounted.
+   */
+  scheduleUpdate: (() => void) | null;
+}
+
+/**
+ * Last rendered output of each component VNode.
+ *
+ * VNodes are immutable, so the output cannot live on the
+ * VNode itself. The diff reads the previous output from here
+ * and the renderer mounts it.
+ *
+ * A WeakMap lets outputs of discarded trees be collected.
+ */
+const renderedMap = new WeakMap<VNode, VNode | null>();
+
+/**
+ * Component instance of each rendered component VNode.
+ */
+const instanceMap = new WeakMap<VNode, ComponentInstance>();
+
+/**
+ * Instance whose render function is currently running.
+ * Hooks read their slots from it.
+ */
+let currentInstance: ComponentInstance | null = null;
+
+/**
+ * Whether a VNode is a function component.
+ */
+export function isComponent(vnode: VNode): boolean {
+  return typeof vnode.type === 'function';
+}
+
+/**
+ * Render a component VNode and remember its output.
+ *
+ * The instance of `prev` is handed over when given,
+ * so state survives re-renders with a new VNode.
+ * Without a `scope`, the instance keeps the providers
+ * it saw last time (self-scheduled re-renders).
+ *
+ * Props are passed without the `key`, and children
+ * arrive as `props.children`.
+ */
+export function renderComponent(
+  vnode: VNode,
+  prev?: VNode | null,
+  scope?: ContextScope | null
+): VNode | null {
+  const instance =
+    (prev && instanceMap.get(prev)) ??
+    instanceMap.get(vnode) ??
+    createInstance(vnode);
+
+  const { vnode: lastVNode, dirty, scope: lastScope } = instance;
+  recordUndo(() => {
+    instance.vnode = lastVNode;
+    instance.dirty = dirty;
+    instance.scope = lastScope;
+  });
+
+  instanceMap.set(vnode, instance);
+  instance.vnode = vnode;
+  instance.slotIndex = 0;
+  instance.dirty = false;
+  if (scope !== undefined) instance.scope = scope;
+
+  const component = vnode.type as Component;
+  const { key: _key, ...props } = vnode.props ?? {};
+
+  const previousInstance = currentInstance;
+  currentInstance = instance;
+
+  try {
+    const output = component({ ...props, children: vnode.children });
+    renderedMap.set(vnode, output);
+    return output;
+  } finally {
+    currentInstance = previousInstance;
+  }
+}
+
+/**
+ * Get the last rendered output of a component VNode.
+ */
+export function getRendered(vnode: VNode): VNode | null {
+  return renderedMap.get(vnode) ?? null;
+}
+
+/**
+ * Remember the rendered output of a VNode.
+ *
+ * Used by node types that render outside of
+ * `renderComponent()`, such as thunks.
+ */
+export function setRendered(vnode: VNode, output: VNode | null): void {
+  renderedMap.set(vnode, output);
+}
+
+/**
+ * Get the instance of a rendered component VNode.
+ */
+export function getInstance(vnode: VNode): ComponentInstance | null {
+  return instanceMap.get(vnode) ?? null;
+}
+
+/**
+ * Get the instance that is currently rendering.
+ *
+ * Throws when called outside a component render,
+ * which is the most common hook misuse.
+ */
+export function getCurrentInstance(): ComponentInstance {
+  if (!currentInstance) {
+    throw new Error('Hooks can only be called inside a component render');
+  }
+  return currentInstance;
+}
+
+/**
+ * Create a fresh instance for a component VNode.
+ */
+function createInstance(vnode: VNode): ComponentInstance {
+  return {
+    vnode,
+    slots: [],
+    slotIndex: 0,
+    dirty: false,
+    mounted: true,
+    scope: null,
+    contexts: new Map(),
+    scheduleUpdate: null
+  };
+}
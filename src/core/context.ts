@@ -0,0 +1,180 @@
+import type { Component, VNode } from './types.js';
+import type { ComponentInstance } from './component.js';
+import { getCurrentInstance } from './component.js';
+import { createVNode } from './vnode.js';
+import { Fragment } from './fragment.js';
+import { recordUndo } from './journal.js';
+
+/**
+ * Context: values provided to a whole subtree.
+ *
+ * const Theme = createContext('light');
+ *
+ * h(Theme.Provider, { value: 'dark' }, h(App, null));
+ *
+ * function Button() {
+ *   const theme = useContext(Theme);
+ * }
+ *
+ * Providers are resolved through the tree being rendered,
+ * never through global state, so separate roots stay isolated.
+ */
+export interface Context<T> {
+  readonly Provider: Component<{ value: T }>;
+  readonly defaultValue: T;
+}
+
+/**
+ * Live state of a mounted provider.
+ *
+ * Like component instances, it is handed over from the
+ * old provider VNode to the new one on every update.
+ */
+export interface ProviderState {
+  readonly context: Context<unknown>;
+  value: unknown;
+
+  // Components that read this provider's value
+  readonly consumers: Set<ComponentInstance>;
+}
+
+/**
+ * Chain of providers above a node, nearest first.
+ *
+ * Threaded through the diff and the renderer's tree walk,
+ * and stored on component instances for their re-renders.
+ */
+export interface ContextScope {
+  readonly state: ProviderState;
+  readonly parent: ContextScope | null;
+}
+
+/**
+ * Context of each Provider component.
+ */
+const providerContexts = new WeakMap<Component<never>, Context<unknown>>();
+
+/**
+ * Provider state of each rendered provider VNode.
+ */
+const stateMap = new WeakMap<VNode, ProviderState>();
+
+/**
+ * Create a context with a default value,
+ * used by consumers without a provider above them.
+ */
+export function createContext<T>(defaultValue: T): Context<T> {
+  // Providers render their children as they are
+  const Provider: Component<{ value: T }> = props =>
+    createVNode(Fragment, null, props.children);
+
+  const context: Context<T> = { Provider, defaultValue };
+  providerContexts.set(Provider, context as Context<unknown>);
+
+  return context;
+}
+
+/**
+ * Whether a VNode is a context provider.
+ */
+export function isProvider(vnode: VNode): boolean {
+  return (
+    typeof vnode.type === 'function' &&
+    providerContexts.has(vnode.type)
+  );
+}
+
+/**
+ * Take over (or create) the state of a provider and
+ * store its new value.
+ *
+ * Returns whether the value changed.
+ */
+export function updateProvider(vnode: VNode, prev: VNode | null): boolean {
+  const existing = prev ? stateMap.get(prev) : undefined;
+  const value = vnode.props?.value;
+
+  if (!existing) {
+    stateMap.set(vnode, {
+      context: providerContexts.get(vnode.type as Component<never>)!,
+      value,
+      consumers: new Set()
+    });
+    return false;
+  }
+
+  stateMap.set(vnode, existing);
+
+  const lastValue = existing.value;
+  recordUndo(() => {
+    existing.value = lastValue;
+  });
+
+  const changed = !Object.is(existing.value, value);
+  existing.value = value;
+  return changed;
+}
+
+/**
+ * Scope seen by the children of a VNode.
+ *
+ * Providers add themselves; every other node passes
+ * its own scope through.
+ */
+export function childScopeOf(
+  vnode: VNode,
+  scope: ContextScope | null
+): ContextScope | null {
+  const state = isProvider(vnode) ? stateMap.get(vnode) : undefined;
+  return state ? { state, parent: scope } : scope;
+}
+
+/**
+ * Schedule consumers that have not seen the current value.
+ *
+ * Consumers re-rendered during the same diff already read
+ * the new value; the others (e.g. below a reused thunk)
+ * are re-rendered by their renderer.
+ */
+export function notifyConsumers(vnode: VNode): void {
+  const state = stateMap.get(vnode);
+  if (!state) return;
+
+  for (const instance of state.consumers) {
+    if (!Object.is(instance.contexts.get(state), state.value)) {
+      instance.dirty = true;
+      instance.scheduleUpdate?.();
+    }
+  }
+}
+
+/**
+ * Read the value of the nearest provider of a context.
+ *
+ * The calling component re-renders when that value changes.
+ */
+export function useContext<T>(context: Context<T>): T {
+  const instance = getCurrentInstance();
+
+  for (let scope = instance.scope; scope; scope = scope.parent) {
+    const { state } = scope;
+    if (state.context !== context) continue;
+
+    const subscribed = state.consumers.has(instance);
+    const lastValue = instance.contexts.get(state);
+    recordUndo(() => {
+      if (subscribed) {
+        instance.contexts.set(state, lastValue);
+      } else {
+        state.consumers.delete(instance);
+        instance.contexts.delete(state);
+      }
+    });
+
+    state.consumers.add(instance);
+    instance.contexts.set(state, state.value);
+    return state.value as T;
+  }
+
+  return context.defaultValue;
+}
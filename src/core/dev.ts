@@ -0,0 +1,29 @@
+/**
+ * Development-only diagnostics.
+ *
+ * Weave follows the bundler convention: any build where
+ * `process.env.NODE_ENV` is not "production" is a dev build.
+ * The check is written out literally so bundlers can replace
+ * it and drop the dev-only code. Environments without
+ * `process` (unbundled browser code) skip the checks.
+ */
+
+// Provided by Node or replaced by the bundler
+declare const process: { env: { NODE_ENV?: string } };
+
+/**
+ * Whether dev-only checks should run.
+ */
+export function isDev(): boolean {
+  return (
+    typeof process !== 'undefined' &&
+    process.env.NODE_ENV !== 'production'
+  );
+}
+
+/**
+ * Print a warning in dev builds. No-op in production.
+ */
+export function warn(message: string): void {
+  if (isDev()) console.warn(`Weave: ${message}`);
+}
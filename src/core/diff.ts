@@ -1,5 +1,39 @@
 import type { VNode } from './types.js';
 import type { Patch } from './patch-types.js';
+import {
+  getInstance,
+  getRendered,
+  isComponent,
+  renderComponent
+} from './component.js';
+import { isSameThunk, isThunk, renderThunk, reuseThunk } from './thunk.js';
+import { catchError, hasCaught, isBoundary } from './boundary.js';
+import {
+  catchSuspension,
+  isFallbackOutput,
+  isSuspense,
+  isSuspension
+} from './suspense.js';
+import type { ContextScope } from './context.js';
+import {
+  childScopeOf,
+  isProvider,
+  notifyConsumers,
+  updateProvider
+} from './context.js';
+
+/**
+ * Diff work that can pause between nodes.
+ *
+ * Every `yield` is a point where a time-sliced update may
+ * hand control back to its scheduler; the generator
+ * returns the complete patch list.
+ *
+ * Components render while the task runs. A task that is
+ * abandoned half-way leaves their committed state alone,
+ * so diffing again from the same old tree is safe.
+ */
+export type DiffTask = Generator<void, Patch[], void>;
 
 /**
  * Entry point for diffing two VNodes.
@@ -8,11 +42,37 @@ import type { Patch } from './patch-types.js';
  * and produces a list of declarative patches describing the changes.
  *
  * The renderer will later interpret and apply these patches.
+ *
+ * `scope` holds the context providers above both trees
+ * (none for a root).
  */
 export function diff(
   oldVNode: VNode | null,
-  newVNode: VNode | null
+  newVNode: VNode | null,
+  scope: ContextScope | null = null
 ): Patch[] {
+  return runToEnd(createDiffTask(oldVNode, newVNode, scope));
+}
+
+/**
+ * Run a diff task without pausing.
+ */
+function runToEnd(task: DiffTask): Patch[] {
+  let step = task.next();
+  while (!step.done) step = task.next();
+  return step.value;
+}
+
+/**
+ * Create a diff that runs in steps, see `DiffTask`.
+ *
+ * Same arguments and result as `diff()`.
+ */
+export function* createDiffTask(
+  oldVNode: VNode | null,
+  newVNode: VNode | null,
+  scope: ContextScope | null = null
+): DiffTask {
   // ---- ROOT / NULL TRANSITIONS ----
   // These handle mount, unmount, and no-op cases.
 
@@ -33,7 +93,7 @@ export function diff(
 
   // Normal diff between two existing nodes
   if (oldVNode && newVNode) {
-    return diffNonNull(oldVNode, newVNode);
+    return yield* diffNonNull(oldVNode, newVNode, scope);
   }
 
   return [];
@@ -45,13 +105,30 @@ export function diff(
  * This is the core recursive diffing algorithm.
  * It compares:
  * 1. Node type
- * 2. Text children
- * 3. Props
+ * 2. Props
+ * 3. Text children
  * 4. Child nodes (keyed or index-based)
+ *
+ * `scope` is passed down so components can read the
+ * context providers above them.
  */
-function diffNonNull(prev: VNode, next: VNode): Patch[] {
+function* diffNonNull(
+  prev: VNode,
+  next: VNode,
+  scope: ContextScope | null
+): DiffTask {
   const patches: Patch[] = [];
 
+  // ---- IDENTICAL NODES ----
+  // VNodes are immutable: the same object describes
+  // the same subtree, so there is nothing to emit.
+  if (prev === next) {
+    return patches;
+  }
+
+  // Let a time-sliced diff pause before each node
+  yield;
+
   // ---- TYPE CHANGE ----
   // If the element type changed (e.g. div → span),
   // we must replace the entire subtree.
@@ -59,24 +136,61 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
     return [{ type: 'REPLACE', vnode: next }];
   }
 
-  // ---- TEXT CHILDREN ----
-  // Fast path for text-only nodes.
-  if (
-    typeof prev.children === 'string' &&
-    typeof next.children === 'string'
-  ) {
-    // If text content changed, emit text update
-    if (prev.children !== next.children) {
-      patches.push({
-        type: 'UPDATE_TEXT',
-        vnode: prev,
-        value: next.children
-      });
+  // ---- THUNKS ----
+  // Unchanged arguments: reuse the previous output without
+  // rendering or diffing it, and emit nothing. The renderer
+  // keeps finding the thunk through `renderedThunkOf()`.
+  if (isThunk(next)) {
+    if (isSameThunk(prev, next)) {
+      reuseThunk(prev, next);
+      return patches;
     }
 
-    // Always emit UPDATE so the renderer can:
-    // - Sync internal node identity (__id)
-    // - Trigger lifecycle hooks
+    patches.push(
+      ...(yield* diffOutput(
+        prev,
+        getRendered(prev),
+        renderThunk(next),
+        scope
+      )),
+      {
+        type: 'UPDATE',
+        oldVNode: prev,
+        newVNode: next
+      }
+    );
+
+    return patches;
+  }
+
+  // ---- COMPONENTS ----
+  // A component is its own identity boundary:
+  // the same component re-renders and its output is diffed.
+  if (isComponent(next)) {
+    // Read the previous output before rendering,
+    // in case both sides are the same VNode object.
+    // The instance (and its state) moves to `next`.
+    const prevOutput = getRendered(prev);
+    const nextOutput = renderComponent(next, prev, scope);
+
+    // Providers store their new value before their
+    // children render, so consumers read it right away
+    const changed = isProvider(next) && updateProvider(next, prev);
+
+    patches.push(
+      ...(yield* diffRendered(
+        prev,
+        next,
+        prevOutput,
+        nextOutput,
+        childScopeOf(next, scope)
+      ))
+    );
+
+    // Consumers the diff did not reach (e.g. below a reused
+    // thunk) still hold the old value: schedule them
+    if (changed) notifyConsumers(next);
+
     patches.push({
       type: 'UPDATE',
       oldVNode: prev,
@@ -88,13 +202,16 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
 
   // ---- PROPS ----
   // Compare props shallowly and emit minimal updates.
-  const oldProps = prev.props ?? {};
-  const newProps = next.props ?? {};
+  // Only host elements own a node that can carry props,
+  // so props of fragments are ignored.
+  const isElement = typeof next.type === 'string';
+  const oldProps = (isElement ? prev.props : null) ?? {};
+  const newProps = (isElement ? next.props : null) ?? {};
 
   // Set or update props
   for (const key in newProps) {
-    // Hooks are handled separately by the renderer
-    if (key === 'hooks') continue;
+    // Hooks and refs are handled separately by the renderer
+    if (key === 'hooks' || key === 'ref') continue;
 
     if (newProps[key] !== oldProps[key]) {
       patches.push({
@@ -108,7 +225,7 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
 
   // Remove props that no longer exist
   for (const key in oldProps) {
-    if (key === 'hooks') continue;
+    if (key === 'hooks' || key === 'ref') continue;
 
     if (!(key in newProps)) {
       patches.push({
@@ -119,8 +236,26 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
     }
   }
 
+  // ---- TEXT CHILDREN ----
+  // Text children are owned by the node itself, not by a
+  // child VNode, so transitions to and from text are explicit.
+  // An empty string means "no text node".
+  const oldText = typeof prev.children === 'string' ? prev.children : null;
+  const newText = typeof next.children === 'string' ? next.children : null;
+
+  // Clear old text before any new children are inserted
+  // (text → elements, text → null)
+  if (newText === null && oldText !== null && oldText !== '') {
+    patches.push({
+      type: 'UPDATE_TEXT',
+      vnode: prev,
+      value: ''
+    });
+  }
+
   // ---- CHILDREN ----
   // Normalize children into arrays for easier diffing.
+  // Text children count as no child nodes here.
   const oldChildren = Array.isArray(prev.children) ? prev.children : [];
   const newChildren = Array.isArray(next.children) ? next.children : [];
 
@@ -133,132 +268,25 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
   // ---- KEYED DIFF ----
   // Preserves identity and supports moves.
   if (hasKeys) {
-    // Map keys → old children for fast lookup
-    const oldKeyMap = new Map<string | number, VNode>();
-    const oldIndexMap = new Map<VNode, number>();
-
-    oldChildren.forEach((child, index) => {
-      if (child.key != null) {
-        oldKeyMap.set(child.key, child);
-      }
-      oldIndexMap.set(child, index);
-    });
-
-    // Track which old nodes were reused
-    const usedOld = new Set<VNode>();
-
-    newChildren.forEach((newChild, newIndex) => {
-      const key = newChild.key;
-
-      // If the key exists in old children, attempt reuse
-      if (key != null && oldKeyMap.has(key)) {
-        const oldChild = oldKeyMap.get(key)!;
-        usedOld.add(oldChild);
-
-        // If types differ, we must replace
-        if (oldChild.type !== newChild.type) {
-          patches.push({
-            type: 'REMOVE',
-            parent: prev,
-            vnode: oldChild
-          });
-
-          patches.push({
-            type: 'INSERT',
-            parent: prev,
-            vnode: newChild,
-            index: newIndex
-          });
-
-          return;
-        }
-
-        // Recursively diff reused child
-        patches.push(...diffNonNull(oldChild, newChild));
-
-        // Detect reordering
-        const oldIndex = oldIndexMap.get(oldChild)!;
-        if (oldIndex !== newIndex) {
-          patches.push({
-            type: 'MOVE',
-            parent: prev,
-            vnode: oldChild,
-            from: oldIndex,
-            to: newIndex
-          });
-        }
-      } else {
-        // New node that didn’t exist before
-        patches.push({
-          type: 'INSERT',
-          parent: prev,
-          vnode: newChild,
-          index: newIndex
-        });
-      }
-    });
-
-    // Remove any old nodes that were not reused
-    oldChildren.forEach(oldChild => {
-      if (!usedOld.has(oldChild)) {
-        patches.push({
-          type: 'REMOVE',
-          parent: prev,
-          vnode: oldChild
-        });
-      }
-    });
+    patches.push(
+      ...(yield* diffKeyed(prev, oldChildren, newChildren, scope))
+    );
   } else {
-    // ---- INDEX DIFF ----
-    // Simpler algorithm when no keys are present.
-    const max = Math.max(oldChildren.length, newChildren.length);
-
-    for (let i = 0; i < max; i++) {
-      const oldChild = oldChildren[i] ?? null;
-      const newChild = newChildren[i] ?? null;
-
-      // New node inserted
-      if (oldChild === null && newChild !== null) {
-        patches.push({
-          type: 'INSERT',
-          parent: prev,
-          vnode: newChild,
-          index: i
-        });
-        continue;
-      }
-
-      // Old node removed
-      if (oldChild !== null && newChild === null) {
-        patches.push({
-          type: 'REMOVE',
-          parent: prev,
-          vnode: oldChild
-        });
-        continue;
-      }
+    // ---- UNKEYED DIFF ----
+    // Children are paired by type and position.
+    patches.push(
+      ...(yield* diffUnkeyed(prev, oldChildren, newChildren, scope))
+    );
+  }
 
-      // Both exist → compare
-      if (oldChild && newChild) {
-        // Different type → replace
-        if (oldChild.type !== newChild.type) {
-          patches.push({
-            type: 'REMOVE',
-            parent: prev,
-            vnode: oldChild
-          });
-          patches.push({
-            type: 'INSERT',
-            parent: prev,
-            vnode: newChild,
-            index: i
-          });
-        } else {
-          // Same type → recurse
-          patches.push(...diffNonNull(oldChild, newChild));
-        }
-      }
-    }
+  // Set new text after old children have been removed
+  // (text → text, elements → text, null → text)
+  if (newText !== null && newText !== (oldText ?? '')) {
+    patches.push({
+      type: 'UPDATE_TEXT',
+      vnode: prev,
+      value: newText
+    });
   }
 
   // ---- FINAL UPDATE (ALWAYS) ----
@@ -272,3 +300,514 @@ function diffNonNull(prev: VNode, next: VNode): Patch[] {
 
   return patches;
 }
+
+/**
+ * Diff keyed children with a minimal number of moves.
+ *
+ * 1. The common prefix and suffix are diffed in place
+ * 2. Old children without a match are removed
+ * 3. Reused children whose old positions form the longest
+ *    increasing subsequence keep their place; every other
+ *    child is moved or inserted right before its next sibling
+ *
+ * Children are matched by slot (see `slotsOf`), and only
+ * reused when their types match as well.
+ *
+ * INSERT and MOVE indices refer to the parent's child list
+ * at the time the patch is applied. They are counted with
+ * a Fenwick tree (see placementOrder), so the whole diff
+ * stays O(n log n).
+ */
+function* diffKeyed(
+  parent: VNode,
+  oldChildren: readonly VNode[],
+  newChildren: readonly VNode[],
+  scope: ContextScope | null
+): DiffTask {
+  const patches: Patch[] = [];
+
+  const oldSlots = slotsOf(oldChildren);
+  const newSlots = slotsOf(newChildren);
+
+  const isSame = (oldIndex: number, newIndex: number): boolean =>
+    oldSlots[oldIndex] === newSlots[newIndex] &&
+    oldChildren[oldIndex]!.type === newChildren[newIndex]!.type;
+
+  // ---- COMMON PREFIX ----
+  let start = 0;
+  let oldEnd = oldChildren.length - 1;
+  let newEnd = newChildren.length - 1;
+
+  while (start <= oldEnd && start <= newEnd && isSame(start, start)) {
+    patches.push(
+      ...(yield* diffNonNull(oldChildren[start]!, newChildren[start]!, scope))
+    );
+    start++;
+  }
+
+  // ---- COMMON SUFFIX ----
+  while (start <= oldEnd && start <= newEnd && isSame(oldEnd, newEnd)) {
+    patches.push(
+      ...(yield* diffNonNull(oldChildren[oldEnd]!, newChildren[newEnd]!, scope))
+    );
+    oldEnd--;
+    newEnd--;
+  }
+
+  // ---- MATCH THE MIDDLE ----
+  // Map remaining slots → new index
+  const newIndexBySlot = new Map<string, number>();
+
+  for (let i = start; i <= newEnd; i++) {
+    newIndexBySlot.set(newSlots[i]!, i);
+  }
+
+  // Old index of each new middle child (-1: new node).
+  // Old children that are not reused are removed first,
+  // so positions only count nodes that stay.
+  const sources = new Array<number>(newEnd - start + 1).fill(-1);
+
+  for (let i = start; i <= oldEnd; i++) {
+    const oldChild = oldChildren[i]!;
+    const newIndex = newIndexBySlot.get(oldSlots[i]!);
+
+    const reused =
+      newIndex !== undefined && newChildren[newIndex]!.type === oldChild.type;
+
+    if (reused) {
+      sources[newIndex - start] = i;
+    } else {
+      patches.push({
+        type: 'REMOVE',
+        parent,
+        vnode: oldChild
+      });
+    }
+  }
+
+  // ---- PLACE THE MIDDLE ----
+  const stable = longestIncreasingSubsequence(sources);
+
+  // Child list positions are counted over the order the
+  // children take while they are placed: each node that is
+  // still in the list counts 1 at its rank
+  const { oldRanks, placedRanks, size } = placementOrder(
+    sources,
+    stable,
+    start,
+    oldEnd
+  );
+  const inList = new Int32Array(size + 1);
+
+  for (const source of sources) {
+    if (source >= 0) addCount(inList, oldRanks[source - start]!, 1);
+  }
+
+  // Walk backwards: the next sibling is always in place already
+  for (let newIndex = newEnd; newIndex >= start; newIndex--) {
+    const newChild = newChildren[newIndex]!;
+    const source = sources[newIndex - start]!;
+    const placedRank = placedRanks[newIndex - start]!;
+
+    // New node that didn’t exist before
+    if (source < 0) {
+      patches.push({
+        type: 'INSERT',
+        parent,
+        vnode: newChild,
+        index: start + countBefore(inList, placedRank)
+      });
+      addCount(inList, placedRank, 1);
+      continue;
+    }
+
+    const oldChild = oldChildren[source]!;
+
+    // Off the subsequence: move before the next sibling.
+    // The MOVE must be emitted before recursing, because
+    // the child's UPDATE patch re-maps its identity.
+    if (!stable.has(newIndex - start)) {
+      const oldRank = oldRanks[source - start]!;
+      const from = start + countBefore(inList, oldRank);
+      addCount(inList, oldRank, -1);
+
+      const to = start + countBefore(inList, placedRank);
+      addCount(inList, placedRank, 1);
+
+      patches.push({
+        type: 'MOVE',
+        parent,
+        vnode: oldChild,
+        from,
+        to
+      });
+    }
+
+    // Recursively diff reused child
+    patches.push(...(yield* diffNonNull(oldChild, newChild, scope)));
+  }
+
+  return patches;
+}
+
+/**
+ * Identity slot of each child in a keyed list.
+ *
+ * - The n-th child with a given key gets slot "key#n", so
+ *   duplicate keys pair up in order of appearance
+ * - The n-th unkeyed child gets slot "#n", so unkeyed
+ *   children pair up by position among unkeyed siblings
+ *
+ * The key's type is part of the slot: 1 and "1" differ.
+ */
+function slotsOf(children: readonly VNode[]): string[] {
+  const occurrences = new Map<string | number, number>();
+  let unkeyed = 0;
+
+  return children.map(child => {
+    const key = child.key;
+    if (key == null) return `#${unkeyed++}`;
+
+    const n = occurrences.get(key) ?? 0;
+    occurrences.set(key, n + 1);
+    return `${typeof key}:${key}#${n}`;
+  });
+}
+
+/**
+ * How far ahead an unkeyed child looks for an old sibling
+ * of the same type before it is treated as a new node.
+ */
+const UNKEYED_LOOKAHEAD = 4;
+
+/**
+ * Diff unkeyed children by type and position.
+ *
+ * 1. The common prefix and suffix (same type at both ends)
+ *    are diffed in place
+ * 2. Each remaining new child reuses the first unused old
+ *    child of the same type within `UNKEYED_LOOKAHEAD`
+ *    siblings; the old children it skips over are removed
+ * 3. New children without a match are inserted
+ *
+ * Matches never cross each other, so relative order is
+ * kept and no MOVE is needed. Inserting or removing one
+ * child near either end costs a single INSERT or REMOVE
+ * instead of re-diffing every sibling after it.
+ */
+function* diffUnkeyed(
+  parent: VNode,
+  oldChildren: readonly VNode[],
+  newChildren: readonly VNode[],
+  scope: ContextScope | null
+): DiffTask {
+  const patches: Patch[] = [];
+
+  // ---- COMMON PREFIX ----
+  let start = 0;
+  let oldEnd = oldChildren.length - 1;
+  let newEnd = newChildren.length - 1;
+
+  while (
+    start <= oldEnd &&
+    start <= newEnd &&
+    oldChildren[start]!.type === newChildren[start]!.type
+  ) {
+    patches.push(
+      ...(yield* diffNonNull(oldChildren[start]!, newChildren[start]!, scope))
+    );
+    start++;
+  }
+
+  // ---- COMMON SUFFIX ----
+  while (
+    start <= oldEnd &&
+    start <= newEnd &&
+    oldChildren[oldEnd]!.type === newChildren[newEnd]!.type
+  ) {
+    patches.push(
+      ...(yield* diffNonNull(oldChildren[oldEnd]!, newChildren[newEnd]!, scope))
+    );
+    oldEnd--;
+    newEnd--;
+  }
+
+  // ---- MATCH THE MIDDLE ----
+  // Old child reused by each new middle child (null: new node)
+  const sources: (VNode | null)[] = [];
+  let cursor = start;
+
+  for (let i = start; i <= newEnd; i++) {
+    const type = newChildren[i]!.type;
+    const limit = Math.min(oldEnd, cursor + UNKEYED_LOOKAHEAD - 1);
+
+    let match = -1;
+    for (let j = cursor; j <= limit; j++) {
+      if (oldChildren[j]!.type === type) {
+        match = j;
+        break;
+      }
+    }
+
+    if (match < 0) {
+      sources.push(null);
+      continue;
+    }
+
+    // Skipped old children have no counterpart
+    for (; cursor < match; cursor++) {
+      patches.push({
+        type: 'REMOVE',
+        parent,
+        vnode: oldChildren[cursor]!
+      });
+    }
+
+    sources.push(oldChildren[match]!);
+    cursor = match + 1;
+  }
+
+  for (; cursor <= oldEnd; cursor++) {
+    patches.push({
+      type: 'REMOVE',
+      parent,
+      vnode: oldChildren[cursor]!
+    });
+  }
+
+  // ---- PLACE THE MIDDLE ----
+  // After the removals, everything before a new child is
+  // already in place, so its own index is the insert index.
+  for (let i = start; i <= newEnd; i++) {
+    const newChild = newChildren[i]!;
+    const oldChild = sources[i - start] ?? null;
+
+    if (oldChild === null) {
+      patches.push({
+        type: 'INSERT',
+        parent,
+        vnode: newChild,
+        index: i
+      });
+    } else {
+      patches.push(...(yield* diffNonNull(oldChild, newChild, scope)));
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Order of the middle children of a keyed list while
+ * they are placed.
+ *
+ * Placing walks the new children backwards and puts each
+ * one off the stable subsequence right before its next
+ * sibling. It thus lands just before the next stable child,
+ * or at the end, behind the old children still waiting to
+ * move. Each old position is therefore preceded by a gap
+ * that receives the children placed before it, in their
+ * new order.
+ *
+ * Returns the rank of each old middle position and of the
+ * place of each moved or new middle child in that order
+ * (stable children keep their old one): the position of
+ * a node in the list is the number of nodes still there
+ * with a lower rank.
+ */
+function placementOrder(
+  sources: readonly number[],
+  stable: Set<number>,
+  start: number,
+  oldEnd: number
+): { oldRanks: Int32Array; placedRanks: Int32Array; size: number } {
+  // Children placed before each stable old position;
+  // the last entry is the gap at the end
+  const gaps: number[][] = Array.from({ length: oldEnd - start + 2 }, () => []);
+  let pending: number[] = [];
+
+  sources.forEach((source, index) => {
+    if (!stable.has(index)) {
+      pending.push(index);
+      return;
+    }
+    gaps[source - start] = pending;
+    pending = [];
+  });
+  gaps[oldEnd - start + 1] = pending;
+
+  const oldRanks = new Int32Array(oldEnd - start + 1);
+  const placedRanks = new Int32Array(sources.length);
+  let rank = 0;
+
+  gaps.forEach((gap, position) => {
+    for (const index of gap) placedRanks[index] = rank++;
+    if (position < oldRanks.length) oldRanks[position] = rank++;
+  });
+
+  return { oldRanks, placedRanks, size: rank };
+}
+
+/**
+ * Add to the count at a rank of a Fenwick tree.
+ */
+function addCount(tree: Int32Array, rank: number, delta: number): void {
+  for (let i = rank + 1; i < tree.length; i += i & -i) tree[i]! += delta;
+}
+
+/**
+ * Sum the counts below a rank of a Fenwick tree.
+ */
+function countBefore(tree: Int32Array, rank: number): number {
+  let count = 0;
+  for (let i = rank; i > 0; i -= i & -i) count += tree[i]!;
+  return count;
+}
+
+/**
+ * Find the positions of a longest strictly increasing
+ * subsequence, skipping negative values.
+ *
+ * Patience sorting with binary search: O(n log n).
+ */
+function longestIncreasingSubsequence(values: readonly number[]): Set<number> {
+  // Position ending the best subsequence of each length
+  const tails: number[] = [];
+  const previous = new Array<number>(values.length).fill(-1);
+
+  values.forEach((value, position) => {
+    if (value < 0) return;
+
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]!]! < value) low = middle + 1;
+      else high = middle;
+    }
+
+    previous[position] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = position;
+  });
+
+  const result = new Set<number>();
+  let position = tails.length > 0 ? tails[tails.length - 1]! : -1;
+  while (position >= 0) {
+    result.add(position);
+    position = previous[position]!;
+  }
+
+  return result;
+}
+
+/**
+ * Re-render a mounted component in place.
+ *
+ * Used when a component schedules its own update:
+ * the VNode stays the same, only its output is diffed.
+ * The component keeps the providers it was rendered under.
+ */
+export function diffComponent(vnode: VNode): Patch[] {
+  const prevOutput = getRendered(vnode);
+  const nextOutput = renderComponent(vnode);
+  const scope = getInstance(vnode)?.scope ?? null;
+
+  return runToEnd(
+    diffRendered(
+      vnode,
+      vnode,
+      prevOutput,
+      nextOutput,
+      childScopeOf(vnode, scope)
+    )
+  );
+}
+
+/**
+ * Diff the outputs of a component.
+ *
+ * Error boundaries catch errors, and Suspense boundaries
+ * suspensions, thrown while rendering their output: the
+ * patches of the failed attempt are dropped and the
+ * previous output is replaced by the fallback as a whole.
+ * A Suspense fallback that is already shown is diffed
+ * as usual instead.
+ */
+function* diffRendered(
+  prev: VNode,
+  next: VNode,
+  prevOutput: VNode | null,
+  nextOutput: VNode | null,
+  scope: ContextScope | null
+): DiffTask {
+  const catches =
+    isSuspense(next) || (isBoundary(next) && !hasCaught(next));
+
+  if (!catches) {
+    return yield* diffOutput(prev, prevOutput, nextOutput, scope);
+  }
+
+  try {
+    return yield* diffOutput(prev, prevOutput, nextOutput, scope);
+  } catch (error) {
+    let fallback: VNode | null;
+
+    if (isSuspense(next)) {
+      if (!isSuspension(error)) throw error;
+
+      const showsFallback = isFallbackOutput(next, prevOutput);
+      fallback = catchSuspension(next, error);
+
+      if (showsFallback) {
+        return yield* diffOutput(prev, prevOutput, fallback, scope);
+      }
+    } else {
+      if (isSuspension(error)) throw error;
+
+      fallback = catchError(next, error);
+    }
+
+    return [
+      ...(yield* diffOutput(prev, prevOutput, null, scope)),
+      ...(yield* diffOutput(prev, null, fallback, scope))
+    ];
+  }
+}
+
+/**
+ * Diff the rendered outputs of a component or thunk.
+ *
+ * The output is the node's single child.
+ * A null output means it renders nothing.
+ */
+function* diffOutput(
+  parent: VNode,
+  prevOutput: VNode | null,
+  nextOutput: VNode | null,
+  scope: ContextScope | null
+): DiffTask {
+  // Output appears
+  if (prevOutput === null && nextOutput !== null) {
+    return [{ type: 'INSERT', parent, vnode: nextOutput, index: 0 }];
+  }
+
+  // Output disappears
+  if (prevOutput !== null && nextOutput === null) {
+    return [{ type: 'REMOVE', parent, vnode: prevOutput }];
+  }
+
+  if (prevOutput && nextOutput) {
+    // Different type → replace the output
+    if (prevOutput.type !== nextOutput.type) {
+      return [
+        { type: 'REMOVE', parent, vnode: prevOutput },
+        { type: 'INSERT', parent, vnode: nextOutput, index: 0 }
+      ];
+    }
+
+    // Same type → recurse
+    return yield* diffNonNull(prevOutput, nextOutput, scope);
+  }
+
+  return [];
+}
@@ -0,0 +1,16 @@
+/**
+ * Fragment node type.
+ *
+ * A Fragment groups several children without creating
+ * a wrapper element. Its children are rendered directly
+ * into the nearest host parent.
+ *
+ * Usage:
+ * h(Fragment, null, h('li', null, 'A'), h('li', null, 'B'))
+ *
+ * Fragments:
+ * - Own no host node
+ * - Ignore props (only `key` is used for identity)
+ * - Are diffed like any other node with children
+ */
+export const Fragment: unique symbol = Symbol.for('weave.fragment');
@@ -1,4 +1,6 @@
 import type {
+  Component,
+  IntrinsicElements,
   VNode,
   VNodeChildren,
   VNodeKey,
@@ -6,6 +8,8 @@ import type {
   VNodeType
 } from './types.js';
 import { createVNode } from './vnode.js';
+import { createTextVNode } from './text.js';
+import { isDev, warn } from './dev.js';
 
 /**
  * Public VNode factory.
@@ -13,11 +17,39 @@ import { createVNode } from './vnode.js';
  * This is the primary function used by users (and the demo)
  * to create virtual DOM nodes.
  *
+ * `type` may be:
+ * - a tag name (props are checked per tag when the
+ *   platform declares it in `IntrinsicElements`)
+ * - the Fragment symbol, which renders its children
+ *   without a wrapper element
+ * - a function component, which receives `props`
+ *   and the children as `props.children`
+ *
  * It:
  * 1. Extracts the optional key from props
  * 2. Normalizes children into a consistent structure
  * 3. Delegates actual VNode creation to createVNode()
  */
+export function h<K extends keyof IntrinsicElements>(
+  type: K,
+  props: IntrinsicElements[K] | null,
+  ...rawChildren: unknown[]
+): VNode;
+export function h<P extends object>(
+  type: Component<P>,
+  props: (P & { key?: VNodeKey }) | null,
+  ...rawChildren: unknown[]
+): VNode;
+export function h<T extends string>(
+  type: T extends keyof IntrinsicElements ? never : T,
+  props: VNodeProps | null,
+  ...rawChildren: unknown[]
+): VNode;
+export function h(
+  type: symbol,
+  props: VNodeProps | null,
+  ...rawChildren: unknown[]
+): VNode;
 export function h(
   type: VNodeType,
   props: VNodeProps | null,
@@ -51,15 +83,29 @@ export function h(
  * - number → converted to string
  * - string → kept as text
  * - array → recursively flattened
- * - mixed text + elements → ❌ disallowed (for now)
+ * - mixed text + elements → adjacent text is merged into
+ *   a text VNode placed between the element siblings
+ *
+ * Shared with the JSX runtime, so both produce the same children.
  */
-function normalizeChildren(input: unknown[]): VNodeChildren {
-  const elements: VNode[] = [];
+export function normalizeChildren(input: unknown[]): VNodeChildren {
+  const nodes: VNode[] = [];
   let text: string | null = null;
+  let hasElements = false;
+
+  /**
+   * Turn pending text into a text VNode.
+   */
+  const flushText = (): void => {
+    if (text !== null) {
+      nodes.push(createTextVNode(text));
+      text = null;
+    }
+  };
 
   /**
    * Recursive walker that flattens arrays
-   * and separates text from element nodes.
+   * and merges adjacent text values.
    */
   const walk = (child: unknown): void => {
     // Ignore empty or non-renderable values
@@ -77,33 +123,51 @@ function normalizeChildren(input: unknown[]): VNodeChildren {
       return;
     }
 
-    // Convert text-like values to a single string
+    // Merge text-like values into the current text run
     if (typeof child === 'number' || typeof child === 'string') {
       text = (text ?? '') + String(child);
       return;
     }
 
     // Otherwise, treat as a VNode element
-    elements.push(child as VNode);
+    flushText();
+    nodes.push(child as VNode);
+    hasElements = true;
   };
 
   // Process all input children
   input.forEach(walk);
 
-  // Mixed text and elements are currently not supported
-  // because it complicates diffing logic.
-  if (elements.length > 0 && text !== null) {
-    throw new Error(
-      'Mixed text and element children are not supported yet'
-    );
-  }
+  // Text-only children keep the plain string form
+  if (!hasElements) return text;
 
-  // Return element children if present
-  if (elements.length > 0) return elements;
+  flushText();
+  if (isDev()) checkKeys(nodes);
+  return nodes;
+}
 
-  // Otherwise return text if present
-  if (text !== null) return text;
+/**
+ * Warn about keys used by more than one sibling.
+ *
+ * Duplicates still render: the diff matches them in order
+ * of appearance. But reordering them cannot preserve
+ * identity reliably, so they are almost always a bug.
+ */
+function checkKeys(nodes: readonly VNode[]): void {
+  const seen = new Set<string | number>();
+  const reported = new Set<string | number>();
+
+  for (const node of nodes) {
+    const key = node.key;
+    if (key == null) continue;
 
-  // No children
-  return null;
+    if (seen.has(key) && !reported.has(key)) {
+      reported.add(key);
+      warn(
+        `Duplicate key ${JSON.stringify(key)} among siblings. ` +
+          'Children with the same key are matched in order of appearance.'
+      );
+    }
+    seen.add(key);
+  }
 }
@@ -0,0 +1,191 @@
+import { getCurrentInstance } from './component.js';
+import type { ComponentInstance } from './component.js';
+import { recordUndo } from './journal.js';
+import type { RefObject } from './types.js';
+
+/**
+ * Component hooks.
+ *
+ * Not to be confused with VNode lifecycle hooks (`props.hooks`):
+ * these give function components local state and effects.
+ *
+ * Hooks are stored in slots on the component instance,
+ * in call order, so they must be called unconditionally
+ * and in the same order on every render.
+ */
+
+/**
+ * New state, or a function of the previous state.
+ */
+export type StateUpdate<S> = S | ((prev: S) => S);
+
+/**
+ * Effect function, optionally returning a cleanup.
+ */
+export type EffectCallback = () => void | (() => void);
+
+interface StateSlot<S> {
+  value: S;
+  setState: (update: StateUpdate<S>) => void;
+}
+
+interface EffectSlot {
+  deps: readonly unknown[] | undefined;
+  cleanup: (() => void) | null;
+
+  // Effect waiting to run after the next commit
+  pending: EffectCallback | null;
+}
+
+/**
+ * Local component state.
+ *
+ * Calling the setter stores the new value and asks the
+ * renderer to re-render only this component's subtree.
+ * Setting an identical value (Object.is) does nothing.
+ */
+export function useState<S>(
+  initial: S | (() => S)
+): [S, (update: StateUpdate<S>) => void] {
+  const instance = getCurrentInstance();
+  const index = instance.slotIndex++;
+
+  if (index >= instance.slots.length) {
+    const slot: StateSlot<S> = {
+      value:
+        typeof initial === 'function'
+          ? (initial as () => S)()
+          : initial,
+      setState: update => {
+        const next =
+          typeof update === 'function'
+            ? (update as (prev: S) => S)(slot.value)
+            : update;
+
+        if (Object.is(next, slot.value)) return;
+
+        slot.value = next;
+        if (instance.mounted) {
+          instance.dirty = true;
+          instance.scheduleUpdate?.();
+        }
+      }
+    };
+    instance.slots.push(slot);
+  }
+
+  const slot = instance.slots[index] as StateSlot<S>;
+  return [slot.value, slot.setState];
+}
+
+/**
+ * Run a side effect after the component is committed.
+ *
+ * The effect re-runs when any dependency changes
+ * (or after every render when `deps` is omitted).
+ * Its cleanup runs before the next run and when the
+ * component is removed.
+ */
+export function useEffect(
+  effect: EffectCallback,
+  deps?: readonly unknown[]
+): void {
+  const instance = getCurrentInstance();
+  const index = instance.slotIndex++;
+
+  if (index >= instance.slots.length) {
+    const slot: EffectSlot = { deps, cleanup: null, pending: effect };
+    instance.slots.push(slot);
+    return;
+  }
+
+  const slot = instance.slots[index] as EffectSlot;
+  if (!deps || !slot.deps || depsChanged(slot.deps, deps)) {
+    const { deps: lastDeps, pending } = slot;
+    recordUndo(() => {
+      slot.deps = lastDeps;
+      slot.pending = pending;
+    });
+
+    slot.deps = deps;
+    slot.pending = effect;
+  }
+}
+
+/**
+ * A ref object that lives as long as the component.
+ *
+ * Pass it as the `ref` prop of a host element to reach
+ * the host node from effects and event handlers.
+ */
+export function useRef<T>(): RefObject<T> {
+  const instance = getCurrentInstance();
+  const index = instance.slotIndex++;
+
+  if (index >= instance.slots.length) {
+    const slot: RefObject<T> = { current: null };
+    instance.slots.push(slot);
+  }
+
+  return instance.slots[index] as RefObject<T>;
+}
+
+/**
+ * Run effects scheduled by the last render.
+ *
+ * Called by the renderer after the commit.
+ */
+export function runEffects(instance: ComponentInstance): void {
+  if (!instance.mounted) return;
+
+  for (const slot of instance.slots) {
+    if (!isEffectSlot(slot) || !slot.pending) continue;
+
+    const effect = slot.pending;
+    slot.pending = null;
+
+    slot.cleanup?.();
+    slot.cleanup = effect() ?? null;
+  }
+}
+
+/**
+ * Clean up all effects of a removed component.
+ *
+ * After this, state setters no longer schedule updates
+ * and providers no longer notify the component.
+ */
+export function unmountInstance(instance: ComponentInstance): void {
+  if (!instance.mounted) return;
+  instance.mounted = false;
+
+  for (const state of instance.contexts.keys()) {
+    state.consumers.delete(instance);
+  }
+  instance.contexts.clear();
+
+  for (const slot of instance.slots) {
+    if (!isEffectSlot(slot)) continue;
+
+    slot.pending = null;
+    slot.cleanup?.();
+    slot.cleanup = null;
+  }
+}
+
+/**
+ * Shallow comparison of effect dependencies.
+ */
+function depsChanged(
+  prev: readonly unknown[],
+  next: readonly unknown[]
+): boolean {
+  return (
+    prev.length !== next.length ||
+    prev.some((dep, i) => !Object.is(dep, next[i]))
+  );
+}
+
+function isEffectSlot(slot: unknown): slot is EffectSlot {
+  return typeof slot === 'object' && slot !== null && 'pending' in slot;
+}
@@ -0,0 +1,522 @@
+import type { VNode, VNodeProps, VNodeType } from './types.js';
+import { h } from './h.js';
+import { Fragment } from './fragment.js';
+
+/**
+ * Tagged template alternative to `h()`, for projects
+ * without a JSX build step:
+ *
+ * html`<ul class="list">
+ *   ${items.map(item => html`<li key=${item.id}>${item.label}</li>`)}
+ * </ul>`
+ *
+ * Supported markup:
+ * - Elements: <div class="a" hidden>, self-closing <br />,
+ *   void elements (<input>) and fragments <>...</>
+ * - Components: <${Panel} title="x">...<//> (or </${Panel}>)
+ * - Attributes: static, interpolated (onclick=${fn}),
+ *   mixed ("item ${state}") and spread (...${props})
+ * - Children: text, interpolated values and <!-- comments -->
+ *
+ * Each template is parsed once and cached by its strings.
+ * Every call then builds VNodes through `h()`, so the
+ * result is exactly what the equivalent `h()` calls produce.
+ *
+ * Whitespace-only text containing a line break is dropped,
+ * and line breaks around text are trimmed, so templates
+ * can be indented freely.
+ *
+ * A template with several top-level nodes returns a Fragment.
+ */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): VNode {
+  let template = templateCache.get(strings);
+  if (!template) {
+    template = parseTemplate(strings);
+    templateCache.set(strings, template);
+  }
+
+  const roots = template.nodes.map(node => evaluate(template!, node, values));
+
+  if (
+    template.nodes.length === 1 &&
+    template.nodes[0]!.kind === 'element'
+  ) {
+    return roots[0] as VNode;
+  }
+
+  return build(Fragment, null, ...roots);
+}
+
+// ---- PARSED TEMPLATE ----
+
+/**
+ * Value made of static text and interpolations,
+ * e.g. the attribute value "item ${state}".
+ * Numbers are indexes into the template's values.
+ */
+type ValueParts = Array<string | number>;
+
+type AttributeTemplate =
+  | { kind: 'attribute'; name: string; value: ValueParts | true }
+  | { kind: 'spread'; slot: number; offset: number };
+
+type NodeTemplate =
+  | {
+      kind: 'element';
+      tag: string | number | typeof Fragment;
+      attributes: AttributeTemplate[];
+      children: NodeTemplate[];
+      offset: number;
+    }
+  | { kind: 'text'; text: string }
+  | { kind: 'slot'; slot: number };
+
+/**
+ * Parsed structure of a template, shared by all its calls.
+ */
+interface Template {
+  nodes: NodeTemplate[];
+
+  // Template source with each interpolation replaced by
+  // a placeholder, used to locate errors
+  source: string;
+}
+
+/**
+ * Parsed templates by their (stable, per call site) strings.
+ */
+const templateCache = new WeakMap<TemplateStringsArray, Template>();
+
+/**
+ * Stand-in for an interpolation in the joined source.
+ * A private-use character, never found in real markup.
+ */
+const SLOT = '\uE000';
+
+/**
+ * Elements that never have children or a closing tag.
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr'
+]);
+
+/**
+ * `h()` with a type only known at runtime.
+ */
+const build = h as (
+  type: VNodeType,
+  props: VNodeProps,
+  ...children: unknown[]
+) => VNode;
+
+// ---- PARSER ----
+
+/**
+ * Parse a template into its node structure.
+ *
+ * A small recursive descent parser over the joined source,
+ * where every interpolation is a single SLOT character.
+ */
+function parseTemplate(strings: TemplateStringsArray): Template {
+  const source = strings.join(SLOT);
+  let pos = 0;
+  let slotCount = 0;
+
+  const fail = (message: string, at: number = pos): never => {
+    throw new Error(templateError(source, message, at));
+  };
+
+  const peek = (text: string): boolean => source.startsWith(text, pos);
+
+  const expect = (text: string): void => {
+    if (!peek(text)) fail(`Expected "${text}"`);
+    pos += text.length;
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < source.length && /\s/.test(source[pos]!)) pos++;
+  };
+
+  const readSlot = (): number => {
+    pos++;
+    return slotCount++;
+  };
+
+  const readName = (): string => {
+    const match = /^[^\s/>="'<]+/.exec(source.slice(pos));
+    if (!match) return fail('Expected a name');
+    pos += match[0].length;
+    return match[0];
+  };
+
+  /**
+   * Parse an attribute value after "=".
+   */
+  const readValue = (): ValueParts => {
+    const quote = source[pos];
+
+    // Unquoted: a single interpolation or a plain word
+    if (quote !== '"' && quote !== "'") {
+      if (source[pos] === SLOT) return [readSlot()];
+      return [readName()];
+    }
+
+    pos++;
+    const parts: ValueParts = [];
+    let text = '';
+
+    while (source[pos] !== quote) {
+      if (pos >= source.length) fail('Unterminated attribute value');
+
+      if (source[pos] === SLOT) {
+        if (text) parts.push(text);
+        text = '';
+        parts.push(readSlot());
+      } else {
+        text += source[pos++];
+      }
+    }
+
+    pos++;
+    if (text || parts.length === 0) parts.push(text);
+    return parts;
+  };
+
+  /**
+   * Parse attributes up to the end of an opening tag.
+   */
+  const readAttributes = (): AttributeTemplate[] => {
+    const attributes: AttributeTemplate[] = [];
+
+    for (;;) {
+      skipWhitespace();
+
+      if (pos >= source.length) fail('Unterminated tag');
+      if (peek('>') || peek('/>')) return attributes;
+
+      // Spread: ...${props}
+      if (peek('...')) {
+        const offset = pos;
+        pos += 3;
+        if (source[pos] !== SLOT) fail('Expected an interpolation after "..."');
+        attributes.push({ kind: 'spread', slot: readSlot(), offset });
+        continue;
+      }
+
+      if (source[pos] === SLOT) fail('Attribute names cannot be interpolated');
+
+      const name = readName();
+      skipWhitespace();
+
+      if (peek('=')) {
+        pos++;
+        skipWhitespace();
+        attributes.push({ kind: 'attribute', name, value: readValue() });
+      } else {
+        attributes.push({ kind: 'attribute', name, value: true });
+      }
+    }
+  };
+
+  /**
+   * Parse an element, starting at its "<".
+   */
+  const readElement = (): NodeTemplate => {
+    const offset = pos;
+    pos++;
+
+    let tag: string | number | typeof Fragment;
+    if (peek('>')) {
+      tag = Fragment;
+    } else if (source[pos] === SLOT) {
+      tag = readSlot();
+    } else {
+      tag = readName();
+    }
+
+    const attributes = readAttributes();
+
+    // Self-closing or void: no children
+    if (peek('/>')) {
+      pos += 2;
+      return { kind: 'element', tag, attributes, children: [], offset };
+    }
+
+    pos++;
+
+    if (typeof tag === 'string' && VOID_ELEMENTS.has(tag)) {
+      return { kind: 'element', tag, attributes, children: [], offset };
+    }
+
+    const children = readNodes(tag, offset);
+    return { kind: 'element', tag, attributes, children, offset };
+  };
+
+  /**
+   * Parse a closing tag and check that it closes `tag`.
+   */
+  const readClosingTag = (
+    tag: string | number | typeof Fragment,
+    openedAt: number
+  ): void => {
+    const offset = pos;
+    pos += 2;
+
+    let name: string | number | typeof Fragment | null = null;
+    if (peek('>')) {
+      name = Fragment;
+    } else if (peek('/>')) {
+      // Generic closing tag <//>
+      pos++;
+    } else if (source[pos] === SLOT) {
+      name = readSlot();
+    } else {
+      name = readName();
+    }
+
+    skipWhitespace();
+    expect('>');
+
+    // Interpolated tags can only be compared once evaluated,
+    // so any interpolated closing tag closes one
+    const matches =
+      name === null ||
+      name === tag ||
+      (typeof name === 'number' && typeof tag === 'number');
+
+    if (!matches) {
+      fail(
+        `Unexpected closing tag ${describeTag(name)}, ` +
+          `expected ${describeTag(tag)} ` +
+          `(opened at ${locate(source, openedAt)})`,
+        offset
+      );
+    }
+  };
+
+  /**
+   * Parse child nodes until the closing tag of `parent`,
+   * or until the end of the template at the top level.
+   */
+  const readNodes = (
+    parent: string | number | typeof Fragment | null,
+    openedAt: number
+  ): NodeTemplate[] => {
+    const nodes: NodeTemplate[] = [];
+    let text = '';
+
+    const flushText = (): void => {
+      const trimmed = trimText(text);
+      if (trimmed) nodes.push({ kind: 'text', text: trimmed });
+      text = '';
+    };
+
+    while (pos < source.length) {
+      const char = source[pos]!;
+
+      if (char === SLOT) {
+        flushText();
+        nodes.push({ kind: 'slot', slot: readSlot() });
+        continue;
+      }
+
+      if (char !== '<') {
+        text += char;
+        pos++;
+        continue;
+      }
+
+      flushText();
+
+      if (peek('<!--')) {
+        const end = source.indexOf('-->', pos);
+        if (end === -1) fail('Unterminated comment');
+
+        // Interpolations inside the comment are dropped,
+        // but still take their place in the values
+        slotCount += source.slice(pos, end).split(SLOT).length - 1;
+        pos = end + 3;
+        continue;
+      }
+
+      if (peek('</')) {
+        if (parent === null) return fail('Unexpected closing tag');
+        readClosingTag(parent, openedAt);
+        return nodes;
+      }
+
+      nodes.push(readElement());
+    }
+
+    flushText();
+
+    if (parent !== null) {
+      fail(`Unclosed ${describeTag(parent)}`, openedAt);
+    }
+
+    return nodes;
+  };
+
+  const nodes = readNodes(null, 0);
+  return { nodes, source };
+}
+
+/**
+ * Drop line breaks (and the indentation around them)
+ * at the edges of a text run.
+ */
+function trimText(text: string): string {
+  return text.replace(/^\s*\n\s*/, '').replace(/\s*\n\s*$/, '');
+}
+
+/**
+ * Describe a tag for error messages.
+ */
+function describeTag(tag: string | number | typeof Fragment | null): string {
+  if (tag === Fragment) return '</>';
+  if (typeof tag === 'number' || tag === null) return '<//>';
+  return `</${tag}>`;
+}
+
+// ---- ERRORS ----
+
+/**
+ * Line and column of an offset, counting each
+ * interpolation as it is written: ${…}.
+ */
+function locate(source: string, offset: number): string {
+  const before = source.slice(0, offset).split(SLOT).join('${…}');
+  const lines = before.split('\n');
+  return `line ${lines.length}, column ${lines[lines.length - 1]!.length + 1}`;
+}
+
+/**
+ * Build an error message pointing at an offset:
+ *
+ * html: Unexpected closing tag </span>, expected </div> at line 2, column 8
+ *   <div><b>x</b></span>
+ *                 ^
+ */
+function templateError(source: string, message: string, offset: number): string {
+  const shown = source.split(SLOT).join('${…}');
+  const before = source.slice(0, offset).split(SLOT).join('${…}');
+
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = shown.indexOf('\n', lineStart);
+  const line = shown.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+
+  return (
+    `html: ${message} at ${locate(source, offset)}\n` +
+    `  ${line}\n` +
+    `  ${' '.repeat(before.length - lineStart)}^`
+  );
+}
+
+// ---- EVALUATION ----
+
+/**
+ * Build the VNode (or raw child value) of a parsed node.
+ */
+function evaluate(
+  template: Template,
+  node: NodeTemplate,
+  values: unknown[]
+): unknown {
+  if (node.kind === 'text') return node.text;
+  if (node.kind === 'slot') return values[node.slot];
+
+  const type =
+    typeof node.tag === 'number' ? values[node.tag] : node.tag;
+
+  if (
+    typeof type !== 'string' &&
+    typeof type !== 'symbol' &&
+    typeof type !== 'function'
+  ) {
+    throw new Error(
+      templateError(
+        template.source,
+        `Expected a component or tag name, got ${String(type)}`,
+        node.offset
+      )
+    );
+  }
+
+  const props = evaluateProps(template, node.attributes, values);
+  const children = node.children.map(child =>
+    evaluate(template, child, values)
+  );
+
+  return build(type as VNodeType, props, ...children);
+}
+
+/**
+ * Build the props object of an element, in attribute order.
+ * Elements without attributes get `null`, like `h()`.
+ */
+function evaluateProps(
+  template: Template,
+  attributes: AttributeTemplate[],
+  values: unknown[]
+): Record<string, unknown> | null {
+  if (attributes.length === 0) return null;
+
+  const props: Record<string, unknown> = {};
+
+  for (const attribute of attributes) {
+    if (attribute.kind === 'spread') {
+      const spread = values[attribute.slot];
+
+      if (spread !== null && typeof spread !== 'object') {
+        throw new Error(
+          templateError(
+            template.source,
+            `Expected an object to spread, got ${String(spread)}`,
+            attribute.offset
+          )
+        );
+      }
+
+      Object.assign(props, spread);
+      continue;
+    }
+
+    props[attribute.name] = evaluateValue(attribute.value, values);
+  }
+
+  return props;
+}
+
+/**
+ * Build an attribute value.
+ *
+ * A lone interpolation keeps its value as is (handlers,
+ * objects, numbers); mixed values are joined into a string.
+ */
+function evaluateValue(value: ValueParts | true, values: unknown[]): unknown {
+  if (value === true) return true;
+
+  const [first] = value;
+  if (value.length === 1 && typeof first === 'number') {
+    return values[first];
+  }
+
+  return value
+    .map(part => (typeof part === 'number' ? String(values[part] ?? '') : part))
+    .join('');
+}
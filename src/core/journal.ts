@@ -0,0 +1,46 @@
+/**
+ * Undo log for render work that may be abandoned.
+ *
+ * A time-sliced update renders components long before it
+ * commits, and a newer update may throw that work away.
+ * Renders change state outside of the new VNodes (instance
+ * fields, hook slots, provider values, caught errors), so
+ * each change records how to undo it here first. Rolling
+ * the journal back restores the committed state before the
+ * update restarts.
+ *
+ * Outside of a time-sliced update no journal is active
+ * and nothing is recorded.
+ */
+export type Journal = Array<() => void>;
+
+let active: Journal | null = null;
+
+/**
+ * Record how to undo a change made by a render.
+ */
+export function recordUndo(undo: () => void): void {
+  active?.push(undo);
+}
+
+/**
+ * Run `work` while recording its changes into `journal`.
+ */
+export function withJournal<T>(journal: Journal, work: () => T): T {
+  const outer = active;
+  active = journal;
+
+  try {
+    return work();
+  } finally {
+    active = outer;
+  }
+}
+
+/**
+ * Undo every recorded change, newest first.
+ */
+export function rollback(journal: Journal): void {
+  for (let i = journal.length - 1; i >= 0; i--) journal[i]!();
+  journal.length = 0;
+}
@@ -30,6 +30,10 @@ export interface ReplacePatch {
  * Update text content of a specific VNode.
  *
  * This is a fast path that avoids recreating the node.
+ *
+ * An empty value removes the text node; a non-empty
+ * value on a VNode without text creates one. This covers
+ * transitions between text and element children.
  */
 export interface UpdateTextPatch {
   readonly type: 'UPDATE_TEXT';
@@ -43,6 +47,10 @@ export interface UpdateTextPatch {
  * Used when:
  * - A new node appears
  * - Keyed diff inserts a node
+ *
+ * `index` is a position among the parent VNode's children.
+ * The renderer translates it into a host position, since
+ * fragment siblings may span several host nodes.
  */
 export interface InsertPatch {
   readonly type: 'INSERT';
@@ -0,0 +1,66 @@
+import type { VNode, VNodeKey } from './types.js';
+import { createVNode } from './vnode.js';
+import { normalizeChildren } from './h.js';
+import { createTextVNode } from './text.js';
+
+/**
+ * Portal node type.
+ *
+ * A portal renders its children into another host container
+ * while staying part of the tree that declares it:
+ *
+ * createPortal(h(Modal, null), modalRoot)
+ *
+ * Portals:
+ * - Own no host node in their parent
+ * - Are diffed like fragments (only `key` is used for identity)
+ * - Run hooks, effects and unmounting with their owner tree
+ * - Move their content when the container changes
+ */
+export const Portal: unique symbol = Symbol.for('weave.portal');
+
+/**
+ * Props stored on a portal VNode.
+ *
+ * The container is a host node, opaque to the core.
+ */
+type PortalProps = {
+  readonly container: unknown;
+};
+
+/**
+ * Create a portal VNode.
+ *
+ * Children are normalized like `h()` children.
+ * Text-only children become a text VNode, so portal
+ * content is always a list of child VNodes.
+ */
+export function createPortal(
+  children: unknown,
+  container: unknown,
+  key: VNodeKey = null
+): VNode {
+  const props: PortalProps = { container };
+
+  const normalized = normalizeChildren([children]);
+  const content =
+    typeof normalized === 'string'
+      ? [createTextVNode(normalized)]
+      : normalized ?? [];
+
+  return createVNode(Portal, props, content, key);
+}
+
+/**
+ * Whether a VNode is a portal.
+ */
+export function isPortal(vnode: VNode): boolean {
+  return vnode.type === Portal;
+}
+
+/**
+ * Host container of a portal VNode.
+ */
+export function portalContainer(vnode: VNode): unknown {
+  return (vnode.props as PortalProps).container;
+}
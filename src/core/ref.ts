@@ -0,0 +1,25 @@
+import type { Ref, RefObject } from './types.js';
+
+/**
+ * Create a ref object.
+ *
+ * Pass it as the `ref` prop; the renderer stores the host
+ * node in `current` once the node is inserted, and resets
+ * it to null when the node is removed.
+ */
+export function createRef<T>(): RefObject<T> {
+  return { current: null };
+}
+
+/**
+ * Assign a value to a callback or object ref.
+ *
+ * Used by the renderer; null means the node is gone.
+ */
+export function setRef<T>(ref: Ref<T>, value: T | null): void {
+  if (typeof ref === 'function') {
+    ref(value);
+  } else {
+    ref.current = value;
+  }
+}
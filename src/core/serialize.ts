@@ -0,0 +1,478 @@
+import type { VNode, VNodeKey, VNodeType } from './types.js';
+import type { Patch } from './patch-types.js';
+import { createVNode, idOf } from './vnode.js';
+import { Fragment } from './fragment.js';
+import { TextNode } from './text.js';
+
+/**
+ * Serializable patch format.
+ *
+ * Patches hold direct VNode references, which cannot cross
+ * a worker boundary, be saved to disk or be replayed.
+ * Encoded patches are plain JSON data instead:
+ *
+ * - Nodes are addressed by their internal VNode id
+ * - Inserted subtrees are encoded in full
+ * - Function props (event handlers) become handler ids
+ *   from a `HandlerRegistry`
+ *
+ * Only host-level VNodes can be encoded: elements,
+ * fragments and text. Components, thunks and portals
+ * render on the side that runs them and are rejected.
+ * `hooks` and `ref` props stay on the encoding side too.
+ */
+
+// ---- ENCODED TYPES ----
+
+/**
+ * JSON-safe prop value.
+ *
+ * `{ $handler: id }` stands for a function; the `$handler`
+ * key is reserved in encoded objects.
+ */
+export type EncodedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | readonly EncodedValue[]
+  | { readonly [key: string]: EncodedValue };
+
+export type EncodedProps = { readonly [key: string]: EncodedValue };
+
+/**
+ * A VNode subtree.
+ *
+ * `type` is a tag name, "#fragment" or "#text".
+ */
+export interface EncodedVNode {
+  readonly id: number;
+  readonly type: string;
+  readonly key: VNodeKey;
+  readonly props: EncodedProps | null;
+  readonly children: readonly EncodedVNode[] | string | null;
+}
+
+/**
+ * Encoded patches mirror `Patch`, with node ids in
+ * place of VNode references. See patch-types.ts.
+ */
+export type EncodedPatch =
+  | { readonly type: 'REPLACE'; readonly node: EncodedVNode | null }
+  | { readonly type: 'UPDATE_TEXT'; readonly id: number; readonly value: string }
+  | {
+      readonly type: 'INSERT';
+      readonly parent: number;
+      readonly node: EncodedVNode;
+      readonly index: number;
+    }
+  | { readonly type: 'REMOVE'; readonly parent: number; readonly id: number }
+  | {
+      readonly type: 'SET_PROP';
+      readonly id: number;
+      readonly key: string;
+      readonly value: EncodedValue;
+    }
+  | { readonly type: 'REMOVE_PROP'; readonly id: number; readonly key: string }
+  | {
+      readonly type: 'MOVE';
+      readonly parent: number;
+      readonly id: number;
+      readonly from: number;
+      readonly to: number;
+    }
+  | {
+      // `nodeType` is the encoded type of the new VNode
+      readonly type: 'UPDATE';
+      readonly id: number;
+      readonly newId: number;
+      readonly nodeType: string;
+    };
+
+// ---- HANDLERS ----
+
+/**
+ * Any function found in props.
+ */
+export type Handler = (...args: never[]) => unknown;
+
+/**
+ * Turns handler ids back into functions when decoding.
+ */
+export interface HandlerResolver {
+  resolve(id: number): Handler | undefined;
+}
+
+/**
+ * Two-way map between handlers and their ids.
+ *
+ * - register(): id of a handler, the same for every call
+ *   with the same function
+ * - resolve(): handler registered under an id
+ * - retain(): forget every handler not in the given set,
+ *   so replaced closures do not pile up
+ */
+export interface HandlerRegistry extends HandlerResolver {
+  register(handler: Handler): number;
+  retain(handlers: ReadonlySet<Handler>): void;
+}
+
+/**
+ * Create an empty handler registry.
+ */
+export function createHandlerRegistry(): HandlerRegistry {
+  const ids = new Map<Handler, number>();
+  const handlers = new Map<number, Handler>();
+  let nextId = 0;
+
+  return {
+    register(handler) {
+      let id = ids.get(handler);
+      if (id === undefined) {
+        id = nextId++;
+        ids.set(handler, id);
+        handlers.set(id, handler);
+      }
+      return id;
+    },
+
+    resolve(id) {
+      return handlers.get(id);
+    },
+
+    retain(keep) {
+      for (const [handler, id] of ids) {
+        if (keep.has(handler)) continue;
+        ids.delete(handler);
+        handlers.delete(id);
+      }
+    }
+  };
+}
+
+// ---- ENCODING ----
+
+/**
+ * Encode patches into JSON-safe data.
+ *
+ * Function props are registered in `handlers`.
+ * Throws on VNodes and prop values that have no
+ * encoded form.
+ */
+export function encodePatches(
+  patches: readonly Patch[],
+  handlers: HandlerRegistry
+): EncodedPatch[] {
+  return patches.map((patch): EncodedPatch => {
+    switch (patch.type) {
+      case 'REPLACE':
+        return {
+          type: 'REPLACE',
+          node: patch.vnode && encodeVNode(patch.vnode, handlers)
+        };
+
+      case 'UPDATE_TEXT':
+        return {
+          type: 'UPDATE_TEXT',
+          id: idOf(patch.vnode),
+          value: patch.value
+        };
+
+      case 'INSERT':
+        return {
+          type: 'INSERT',
+          parent: idOf(patch.parent),
+          node: encodeVNode(patch.vnode, handlers),
+          index: patch.index
+        };
+
+      case 'REMOVE':
+        return {
+          type: 'REMOVE',
+          parent: idOf(patch.parent),
+          id: idOf(patch.vnode)
+        };
+
+      case 'SET_PROP':
+        return {
+          type: 'SET_PROP',
+          id: idOf(patch.vnode),
+          key: patch.key,
+          value: encodeValue(patch.value, patch.key, handlers)
+        };
+
+      case 'REMOVE_PROP':
+        return {
+          type: 'REMOVE_PROP',
+          id: idOf(patch.vnode),
+          key: patch.key
+        };
+
+      case 'MOVE':
+        return {
+          type: 'MOVE',
+          parent: idOf(patch.parent),
+          id: idOf(patch.vnode),
+          from: patch.from,
+          to: patch.to
+        };
+
+      case 'UPDATE':
+        return {
+          type: 'UPDATE',
+          id: idOf(patch.oldVNode),
+          newId: idOf(patch.newVNode),
+          nodeType: encodeType(patch.newVNode)
+        };
+    }
+  });
+}
+
+/**
+ * Encode a VNode and its whole subtree.
+ */
+function encodeVNode(vnode: VNode, handlers: HandlerRegistry): EncodedVNode {
+  const children = vnode.children;
+
+  return {
+    id: idOf(vnode),
+    type: encodeType(vnode),
+    key: vnode.key,
+    props: vnode.props && encodeProps(vnode.props, handlers),
+    children: Array.isArray(children)
+      ? children.map(child => encodeVNode(child, handlers))
+      : (children as string | null)
+  };
+}
+
+/**
+ * Encoded form of a VNode type.
+ */
+function encodeType(vnode: VNode): string {
+  if (typeof vnode.type === 'string') return vnode.type;
+  if (vnode.type === Fragment) return '#fragment';
+  if (vnode.type === TextNode) return '#text';
+
+  throw new Error(
+    'encodePatches: only elements, fragments and text can be encoded, ' +
+      'not components, thunks or portals'
+  );
+}
+
+/**
+ * Encode props, leaving out the local-only ones.
+ */
+function encodeProps(
+  props: NonNullable<VNode['props']>,
+  handlers: HandlerRegistry
+): EncodedProps {
+  const encoded: Record<string, EncodedValue> = {};
+
+  for (const key in props) {
+    if (key === 'hooks' || key === 'ref') continue;
+    encoded[key] = encodeValue(props[key], key, handlers);
+  }
+
+  return encoded;
+}
+
+/**
+ * Encode a prop value. `prop` names the prop in errors.
+ */
+function encodeValue(
+  value: unknown,
+  prop: string,
+  handlers: HandlerRegistry
+): EncodedValue {
+  if (value === null || value === undefined) return null;
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return value;
+
+    case 'number':
+      if (Number.isFinite(value)) return value;
+      break;
+
+    case 'function':
+      return { $handler: handlers.register(value as Handler) };
+
+    case 'object': {
+      if (Array.isArray(value)) {
+        return value.map(item => encodeValue(item, prop, handlers));
+      }
+
+      const proto = Object.getPrototypeOf(value) as unknown;
+      if (proto !== Object.prototype && proto !== null) break;
+
+      const encoded: Record<string, EncodedValue> = {};
+      for (const [key, item] of Object.entries(value)) {
+        encoded[key] = encodeValue(item, prop, handlers);
+      }
+      return encoded;
+    }
+  }
+
+  throw new Error(`encodePatches: prop "${prop}" cannot be encoded`);
+}
+
+// ---- DECODING ----
+
+/**
+ * Stand-in type for an already mounted node.
+ *
+ * Decoded patches address existing nodes by id only;
+ * VNodes of this type carry that id and nothing else.
+ */
+export const NodeReference: unique symbol = Symbol.for('weave.reference');
+
+/**
+ * Decode patches produced by `encodePatches()`.
+ *
+ * The result is a regular patch list for a root's
+ * `apply()`. Rebuilt VNodes keep their encoded ids, so
+ * the root finds the nodes created by earlier patches.
+ */
+export function decodePatches(
+  patches: readonly EncodedPatch[],
+  handlers: HandlerResolver
+): Patch[] {
+  return patches.map((patch): Patch => {
+    switch (patch.type) {
+      case 'REPLACE':
+        return {
+          type: 'REPLACE',
+          vnode: patch.node && decodeVNode(patch.node, handlers)
+        };
+
+      case 'UPDATE_TEXT':
+        return {
+          type: 'UPDATE_TEXT',
+          vnode: reference(patch.id),
+          value: patch.value
+        };
+
+      case 'INSERT':
+        return {
+          type: 'INSERT',
+          parent: reference(patch.parent),
+          vnode: decodeVNode(patch.node, handlers),
+          index: patch.index
+        };
+
+      case 'REMOVE':
+        return {
+          type: 'REMOVE',
+          parent: reference(patch.parent),
+          vnode: reference(patch.id)
+        };
+
+      case 'SET_PROP':
+        return {
+          type: 'SET_PROP',
+          vnode: reference(patch.id),
+          key: patch.key,
+          value: decodeValue(patch.value, handlers)
+        };
+
+      case 'REMOVE_PROP':
+        return {
+          type: 'REMOVE_PROP',
+          vnode: reference(patch.id),
+          key: patch.key
+        };
+
+      case 'MOVE':
+        return {
+          type: 'MOVE',
+          parent: reference(patch.parent),
+          vnode: reference(patch.id),
+          from: patch.from,
+          to: patch.to
+        };
+
+      case 'UPDATE':
+        return {
+          type: 'UPDATE',
+          oldVNode: reference(patch.id),
+          newVNode: createVNode(
+            decodeType(patch.nodeType),
+            null,
+            null,
+            null,
+            patch.newId
+          )
+        };
+    }
+  });
+}
+
+/**
+ * Create a reference to the mounted node with this id.
+ */
+function reference(id: number): VNode {
+  return createVNode(NodeReference, null, null, null, id);
+}
+
+/**
+ * Rebuild a VNode and its subtree, keeping their ids.
+ */
+function decodeVNode(node: EncodedVNode, handlers: HandlerResolver): VNode {
+  let props: Record<string, unknown> | null = null;
+
+  if (node.props) {
+    props = {};
+    for (const key in node.props) {
+      props[key] = decodeValue(node.props[key]!, handlers);
+    }
+  }
+
+  const children =
+    typeof node.children === 'string' || node.children === null
+      ? node.children
+      : node.children.map(child => decodeVNode(child, handlers));
+
+  return createVNode(
+    decodeType(node.type),
+    props,
+    children,
+    node.key,
+    node.id
+  );
+}
+
+/**
+ * VNode type of an encoded type.
+ */
+function decodeType(type: string): VNodeType {
+  if (type === '#fragment') return Fragment;
+  if (type === '#text') return TextNode;
+  return type;
+}
+
+/**
+ * Decode a prop value, resolving handler ids.
+ */
+function decodeValue(value: EncodedValue, handlers: HandlerResolver): unknown {
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    return value.map(item => decodeValue(item as EncodedValue, handlers));
+  }
+
+  const record = value as { readonly [key: string]: EncodedValue };
+  const id = record.$handler;
+
+  if (typeof id === 'number') {
+    const handler = handlers.resolve(id);
+    if (!handler) throw new Error(`decodePatches: unknown handler ${id}`);
+    return handler;
+  }
+
+  const decoded: Record<string, unknown> = {};
+  for (const key in record) {
+    decoded[key] = decodeValue(record[key]!, handlers);
+  }
+  return decoded;
+}
@@ -0,0 +1,186 @@
+import type { Component, ComponentProps, VNode } from './types.js';
+import type { ComponentInstance } from './component.js';
+import {
+  getCurrentInstance,
+  getInstance,
+  setRendered
+} from './component.js';
+import { createVNode } from './vnode.js';
+import { Fragment } from './fragment.js';
+import { recordUndo } from './journal.js';
+
+/**
+ * Props of a Suspense boundary.
+ *
+ * - fallback: rendered while a descendant is loading
+ */
+export interface SuspenseProps {
+  fallback?: VNode | null;
+}
+
+/**
+ * Module a lazy component is loaded from: either
+ * the component itself or a module with a default export.
+ */
+export type LazyModule<P> = Component<P> | { default: Component<P> };
+
+/**
+ * Promises thrown by suspended renders.
+ *
+ * Marking them tells suspensions apart from errors,
+ * which are left to error boundaries.
+ */
+const suspensions = new WeakSet<object>();
+
+/**
+ * Promises each Suspense instance is waiting for since
+ * it last rendered its children.
+ */
+const waitingFor = new WeakMap<ComponentInstance, Set<Promise<unknown>>>();
+
+/**
+ * Fallback output each Suspense instance rendered last.
+ */
+const fallbackOutputs = new WeakMap<ComponentInstance, VNode | null>();
+
+/**
+ * Suspense boundary component.
+ *
+ * h(Suspense, { fallback: h('p', null, 'Loading…') },
+ *   h(LazyPanel, null)
+ * )
+ *
+ * While any descendant is loading, the children are replaced
+ * by the fallback. Every render of the boundary tries its
+ * children again: the fallback stays only while they still
+ * suspend, and once they render, they replace it through
+ * the normal diff and commit.
+ */
+export const Suspense: Component<SuspenseProps> = props => {
+  const instance = getCurrentInstance();
+
+  // Only a fresh suspension of these children brings
+  // the fallback back
+  const waiting = waitingFor.get(instance);
+  if (waiting) {
+    waitingFor.delete(instance);
+    recordUndo(() => waitingFor.set(instance, waiting));
+  }
+
+  return createVNode(Fragment, null, props.children);
+};
+
+/**
+ * Create a component that loads its implementation on
+ * first render.
+ *
+ * const Chart = lazy(() => import('./Chart.js'));
+ *
+ * Rendering suspends until the module has loaded; a failed
+ * load is thrown as an error on the next render, where error
+ * boundaries can catch it.
+ */
+export function lazy<P>(load: () => Promise<LazyModule<P>>): Component<P> {
+  let component: Component<P> | null = null;
+  let promise: Promise<void> | null = null;
+  let failure: { error: unknown } | null = null;
+
+  return (props: ComponentProps<P>) => {
+    if (component) {
+      const { children, ...rest } = props;
+      return createVNode(component as Component<never>, rest, children);
+    }
+
+    if (failure) throw failure.error;
+
+    promise ??= load().then(
+      loaded => {
+        component = typeof loaded === 'function' ? loaded : loaded.default;
+      },
+      error => {
+        failure = { error };
+      }
+    );
+
+    suspensions.add(promise);
+    throw promise;
+  };
+}
+
+/**
+ * Whether a thrown value is a suspended render.
+ */
+export function isSuspension(value: unknown): value is Promise<unknown> {
+  return typeof value === 'object' && value !== null && suspensions.has(value);
+}
+
+/**
+ * Whether a VNode is a Suspense boundary.
+ */
+export function isSuspense(vnode: VNode): boolean {
+  return vnode.type === Suspense;
+}
+
+/**
+ * Whether an output is the fallback a Suspense VNode
+ * rendered last.
+ */
+export function isFallbackOutput(vnode: VNode, output: VNode | null): boolean {
+  const instance = getInstance(vnode);
+  return (
+    instance !== null &&
+    fallbackOutputs.has(instance) &&
+    fallbackOutputs.get(instance) === output
+  );
+}
+
+/**
+ * Switch a Suspense boundary to its fallback until
+ * the promise settles.
+ *
+ * Returns the fallback, which becomes the boundary's output.
+ * When the promise settles, the boundary re-renders unless
+ * it has been removed in the meantime.
+ */
+export function catchSuspension(
+  vnode: VNode,
+  promise: Promise<unknown>
+): VNode | null {
+  const instance = getInstance(vnode)!;
+  const fallback = (vnode.props?.fallback as VNode | null | undefined) ?? null;
+
+  setRendered(vnode, fallback);
+
+  const lastFallback = fallbackOutputs.get(instance);
+  recordUndo(() => {
+    if (lastFallback === undefined) fallbackOutputs.delete(instance);
+    else fallbackOutputs.set(instance, lastFallback);
+  });
+  fallbackOutputs.set(instance, fallback);
+
+  const waiting = waitingFor.get(instance) ?? new Set();
+  waitingFor.set(instance, waiting);
+
+  if (!waiting.has(promise)) {
+    waiting.add(promise);
+    recordUndo(() => waiting.delete(promise));
+
+    const retry = () => {
+      waiting.delete(promise);
+      if (!instance.mounted) return;
+
+      instance.dirty = true;
+      instance.scheduleUpdate?.();
+    };
+    promise.then(retry, retry);
+  }
+
+  return fallback;
+}
+
+/**
+ * Report a suspension that reached no Suspense boundary.
+ */
+export function unhandledSuspension(): Error {
+  return new Error('A lazy component suspended outside of a Suspense boundary');
+}
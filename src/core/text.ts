@@ -0,0 +1,23 @@
+import type { VNode } from './types.js';
+import { createVNode } from './vnode.js';
+
+/**
+ * Text node type.
+ *
+ * A text VNode is a real node in a children array,
+ * used when text and elements are mixed:
+ *
+ * h('p', null, 'Hello ', h('b', null, name), '!')
+ *
+ * Its `children` always holds the text itself.
+ * Elements with only text children keep the plain
+ * string form and never produce text VNodes.
+ */
+export const TextNode: unique symbol = Symbol.for('weave.text');
+
+/**
+ * Create a text VNode.
+ */
+export function createTextVNode(text: string): VNode {
+  return createVNode(TextNode, null, text);
+}
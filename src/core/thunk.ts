@@ -0,0 +1,106 @@
+import type { VNode, VNodeKey } from './types.js';
+import { createVNode } from './vnode.js';
+import { getRendered, setRendered } from './component.js';
+
+/**
+ * Thunk node type.
+ *
+ * A thunk defers rendering a subtree to a function and
+ * remembers the arguments it was rendered with:
+ *
+ * thunk(row.id, renderRow, row, selected)
+ *
+ * When the next thunk has the same render function and
+ * shallow-equal arguments, the diff reuses the previous
+ * subtree without calling the function or diffing it.
+ */
+export const Thunk: unique symbol = Symbol.for('weave.thunk');
+
+/**
+ * Render function of a thunk.
+ */
+export type ThunkRender<A extends unknown[]> = (...args: A) => VNode | null;
+
+/**
+ * Props stored on a thunk VNode.
+ */
+type ThunkProps = {
+  readonly render: ThunkRender<unknown[]>;
+  readonly args: readonly unknown[];
+};
+
+/**
+ * Create a thunk VNode.
+ */
+export function thunk<A extends unknown[]>(
+  key: VNodeKey,
+  render: ThunkRender<A>,
+  ...args: A
+): VNode {
+  const props: ThunkProps = {
+    render: render as ThunkRender<unknown[]>,
+    args: Object.freeze(args)
+  };
+
+  return createVNode(Thunk, props, null, key);
+}
+
+/**
+ * Whether a VNode is a thunk.
+ */
+export function isThunk(vnode: VNode): boolean {
+  return vnode.type === Thunk;
+}
+
+/**
+ * Reused thunks, mapped to the rendered thunk they stand
+ * in for. The diff emits no patch for a reused thunk, so
+ * the renderer still knows it by that thunk's identity.
+ */
+const standInMap = new WeakMap<VNode, VNode>();
+
+/**
+ * Call a thunk's render function and remember its output.
+ */
+export function renderThunk(vnode: VNode): VNode | null {
+  const { render, args } = vnode.props as ThunkProps;
+
+  const output = render(...args);
+  setRendered(vnode, output);
+  standInMap.delete(vnode);
+
+  return output;
+}
+
+/**
+ * Let `next` take over the output of `prev` without
+ * rendering. See `isSameThunk()`.
+ */
+export function reuseThunk(prev: VNode, next: VNode): void {
+  setRendered(next, getRendered(prev));
+  standInMap.set(next, renderedThunkOf(prev));
+}
+
+/**
+ * The VNode the renderer knows a node by: for a reused
+ * thunk, the last thunk that actually rendered;
+ * otherwise the VNode itself.
+ */
+export function renderedThunkOf(vnode: VNode): VNode {
+  return standInMap.get(vnode) ?? vnode;
+}
+
+/**
+ * Whether two thunks would render the same output:
+ * same render function and shallow-equal arguments.
+ */
+export function isSameThunk(prev: VNode, next: VNode): boolean {
+  const a = prev.props as ThunkProps;
+  const b = next.props as ThunkProps;
+
+  return (
+    a.render === b.render &&
+    a.args.length === b.args.length &&
+    a.args.every((arg, i) => Object.is(arg, b.args[i]))
+  );
+}
@@ -14,10 +14,11 @@
  * Valid VNode node types.
  *
  * - string: host elements (e.g. 'div', 'span')
- * - symbol: reserved for special internal nodes
- *   (e.g. Fragment, Portal, etc. in future extensions)
+ * - symbol: special internal nodes
+ *   (Fragment, TextNode, Thunk, Portal)
+ * - function: components (see `Component`)
  */
-export type VNodeType = string | symbol;
+export type VNodeType = string | symbol | Component<never>;
 
 /**
  * Stable identity hint for reconciliation.
@@ -60,11 +61,29 @@ export interface VNodeHooks<Node = unknown> {
   remove?: (vnode: VNode, node: Node, done: () => void) => void;
 }
 
+/**
+ * Mutable container for a host node.
+ */
+export interface RefObject<T> {
+  current: T | null;
+}
+
+/**
+ * Reference to the host node of a VNode.
+ *
+ * - callback: called with the node, and with null on removal
+ * - object: `current` holds the node, null after removal
+ *
+ * Unlike the `create` hook, a ref is always cleared again.
+ */
+export type Ref<T = unknown> = ((node: T | null) => void) | RefObject<T>;
+
 /**
  * Props are plain key-value pairs.
  *
- * Special rule:
+ * Special rules:
  * - Lifecycle hooks must live under the reserved `hooks` key.
+ * - Host node refs must live under the reserved `ref` key.
  *
  * Props are:
  * - Readonly
@@ -73,17 +92,30 @@ export interface VNodeHooks<Node = unknown> {
  */
 export type VNodeProps = Readonly<{
   hooks?: VNodeHooks;
+  ref?: Ref;
   [key: string]: unknown;
 }> | null;
 
+/**
+ * Props of host elements, by tag name.
+ *
+ * Empty in the platform-agnostic core. Platforms declare
+ * their elements by augmenting this interface, which makes
+ * `h()` check props per tag (see platforms/dom/elements.ts).
+ *
+ * Tags missing from the map fall back to `VNodeProps`.
+ */
+export interface IntrinsicElements {}
+
 /**
  * A VNode may have:
  * - no children (null)
  * - text children (string)
  * - an array of VNodes
  *
- * Mixed text + element children are not allowed
- * and are normalized in the `h()` function.
+ * Mixed text + element children are normalized
+ * in the `h()` function: text between elements
+ * becomes a text VNode in the array.
  */
 export type VNodeChildren = string | readonly VNode[] | null;
 
@@ -101,3 +133,27 @@ export interface VNode {
   readonly children: VNodeChildren;
   readonly key: VNodeKey;
 }
+
+/**
+ * Props received by a function component.
+ *
+ * Children passed to `h()` arrive as `props.children`,
+ * already normalized. The `key` is never passed down.
+ */
+export type ComponentProps<P = Record<string, unknown>> = P & {
+  readonly children: VNodeChildren;
+};
+
+/**
+ * A function component.
+ *
+ * Components are pure functions from props to a VNode tree.
+ * The diff treats each component as an identity boundary:
+ * - Same component → re-render and diff the output
+ * - Different component → replace the subtree
+ *
+ * Returning null renders nothing.
+ */
+export type Component<P = Record<string, unknown>> = (
+  props: ComponentProps<P>
+) => VNode | null;
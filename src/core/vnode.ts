@@ -32,12 +32,16 @@ let vnodeId = 0;
  * 1. Create the VNode object
  * 2. Attach an internal stable identity (__id)
  * 3. Freeze the object to enforce immutability
+ *
+ * `id` is only passed to rebuild a VNode created elsewhere
+ * with the same identity, such as a decoded patch.
  */
 export function createVNode(
   type: VNodeType,
   props: VNodeProps,
   children: VNodeChildren,
-  key: VNodeKey = null
+  key: VNodeKey = null,
+  id: number = vnodeId++
 ): VNode {
   const vnode: VNode = {
     type,
@@ -55,7 +59,7 @@ export function createVNode(
    * - Is used by the renderer to map VNodes to real nodes
    */
   Object.defineProperty(vnode, '__id', {
-    value: vnodeId++,
+    value: id,
     enumerable: false,
     writable: false,
     configurable: false
@@ -79,3 +83,10 @@ export function createVNode(
 
   return vnode;
 }
+
+/**
+ * Get the internal identity of a VNode.
+ */
+export function idOf(vnode: VNode): number {
+  return (vnode as VNode & { __id: number }).__id;
+}
@@ -1,7 +1,50 @@
 import { createRenderer } from './renderer/createRenderer.js';
 import { domHost } from './platforms/dom/host.js';
 import { h } from './core/h.js';
-import type { VNode } from './core/types.js';
+import { html } from './core/html.js';
+import { Fragment } from './core/fragment.js';
+import { useState, useEffect, useRef } from './core/hooks.js';
+import { createRef } from './core/ref.js';
+import { thunk } from './core/thunk.js';
+import { createContext, useContext } from './core/context.js';
+import { createPortal } from './core/portal.js';
+import { ErrorBoundary } from './core/boundary.js';
+import type { ErrorBoundaryProps } from './core/boundary.js';
+import { Suspense, lazy } from './core/suspense.js';
+import type { LazyModule, SuspenseProps } from './core/suspense.js';
+import {
+  createHandlerRegistry,
+  decodePatches,
+  encodePatches
+} from './core/serialize.js';
+import type {
+  EncodedPatch,
+  HandlerRegistry,
+  HandlerResolver
+} from './core/serialize.js';
+import { connectWorker } from './runtime/connect.js';
+import type { WorkerConnection } from './runtime/connect.js';
+import type { MessagePortLike } from './runtime/protocol.js';
+import type {
+  ConcurrentOptions,
+  Root,
+  RootOptions
+} from './renderer/createRenderer.js';
+import {
+  animationFrameScheduler,
+  createManualScheduler,
+  microtaskScheduler,
+  timeoutScheduler
+} from './renderer/scheduler.js';
+import type { ManualScheduler, Scheduler } from './renderer/scheduler.js';
+import type { Context } from './core/context.js';
+import type {
+  Component,
+  ComponentProps,
+  Ref,
+  RefObject,
+  VNode
+} from './core/types.js';
 
 /**
  * Re-export the public VNode factory.
@@ -12,10 +55,142 @@ import type { VNode } from './core/types.js';
 export { h };
 
 /**
- * Re-export the VNode type
+ * Re-export the tagged template builder.
+ *
+ * Builds the same VNodes as `h()` from HTML-like markup:
+ * html`<p class="intro">Hello ${name}</p>`
+ */
+export { html };
+
+/**
+ * Re-export the Fragment node type.
+ *
+ * Groups children without a wrapper element:
+ * h(Fragment, null, h('li', null, 'A'), h('li', null, 'B'))
+ */
+export { Fragment };
+
+/**
+ * Re-export component hooks.
+ *
+ * Give function components local state and effects.
+ */
+export { useState, useEffect, useRef };
+
+/**
+ * Re-export the ref factory.
+ *
+ * Refs give access to host nodes (focus, measuring, ...).
+ */
+export { createRef };
+
+/**
+ * Re-export the thunk factory.
+ *
+ * Skips re-rendering and diffing a subtree
+ * while its arguments stay the same.
+ */
+export { thunk };
+
+/**
+ * Re-export context helpers.
+ *
+ * Provide a value to a whole subtree without
+ * passing it through every component's props.
+ */
+export { createContext, useContext };
+
+/**
+ * Re-export the portal factory.
+ *
+ * Renders children into another container
+ * (modals, toasts, tooltips).
+ */
+export { createPortal };
+
+/**
+ * Re-export the error boundary component.
+ *
+ * Shows a fallback instead of a subtree that failed,
+ * keeping the rest of the tree alive.
+ */
+export { ErrorBoundary };
+
+/**
+ * Re-export lazy loading helpers.
+ *
+ * Load components on demand and show a fallback
+ * while they are loading.
+ */
+export { Suspense, lazy };
+
+/**
+ * Re-export the serializable patch format.
+ *
+ * Encoded patches are plain JSON: they can be posted
+ * to another thread, stored, or replayed with
+ * `root.apply(decodePatches(encoded, handlers))`.
+ */
+export { encodePatches, decodePatches, createHandlerRegistry };
+
+/**
+ * Re-export the main thread side of the worker protocol.
+ *
+ * Applies patches diffed by a `createWorkerRoot()` from
+ * "weave/worker" and forwards DOM events back to it.
+ */
+export { connectWorker };
+
+/**
+ * Re-export the built-in schedulers.
+ *
+ * Decide when `root.scheduleUpdate()` flushes
+ * (`options.scheduler`) and when the slices of a
+ * concurrent root run (`options.concurrent.scheduler`).
+ */
+export {
+  microtaskScheduler,
+  animationFrameScheduler,
+  timeoutScheduler,
+  createManualScheduler
+};
+
+/**
+ * Re-export the VNode and component types
  * so users don’t need to know the internal file structure.
  */
-export type { VNode };
+export type {
+  VNode,
+  Component,
+  ComponentProps,
+  ConcurrentOptions,
+  Context,
+  EncodedPatch,
+  ErrorBoundaryProps,
+  HandlerRegistry,
+  HandlerResolver,
+  LazyModule,
+  ManualScheduler,
+  MessagePortLike,
+  Ref,
+  RefObject,
+  Root,
+  RootOptions,
+  Scheduler,
+  SuspenseProps,
+  WorkerConnection
+};
+
+/**
+ * Re-export typed DOM element props.
+ *
+ * Importing them also registers the DOM tags
+ * with `h()` and JSX type checking.
+ */
+export type {
+  DomElementProps,
+  EventHandler
+} from './platforms/dom/elements.js';
 
 /**
  * Create a renderer using the DOM host implementation.
@@ -34,7 +209,34 @@ const renderer = createRenderer(domHost);
  * 1. Takes a VNode tree
  * 2. Mounts it into a DOM container
  * 3. Returns a Root controller for updates/unmounting
+ *
+ * `options.onError` receives errors no error boundary caught.
+ * Pass `null` to start empty, e.g. for a root driven by
+ * `root.apply()`.
+ */
+export function mount(
+  vnode: VNode | null,
+  container: HTMLElement,
+  options?: RootOptions
+): Root {
+  return renderer.mount(vnode, container, options);
+}
+
+/**
+ * Public hydrate function.
+ *
+ * Like `mount()`, but adopts the DOM nodes already in
+ * the container, e.g. markup rendered on a server,
+ * instead of creating new ones. Event listeners, refs
+ * and `create` hooks are attached to the adopted nodes.
+ *
+ * Nodes that do not match the VNode tree are patched,
+ * with a warning naming their path in dev builds.
  */
-export function mount(vnode: VNode, container: HTMLElement) {
-  return renderer.mount(vnode, container);
+export function hydrate(
+  vnode: VNode | null,
+  container: HTMLElement,
+  options?: RootOptions
+): Root {
+  return renderer.hydrate(vnode, container, options);
 }
@@ -0,0 +1,27 @@
+import type { VNode, VNodeKey, VNodeType } from './core/types.js';
+import { jsx } from './jsx-runtime.js';
+
+/**
+ * Development JSX runtime.
+ *
+ * Used with "jsx": "react-jsxdev". The extra arguments
+ * (static children flag, source location, `this`) are
+ * accepted for compatibility and ignored.
+ */
+
+export { Fragment, jsx, jsxs } from './jsx-runtime.js';
+export type { JSX, JSXChild } from './jsx-runtime.js';
+
+/**
+ * Create a VNode from a JSX element in development builds.
+ */
+export function jsxDEV(
+  type: VNodeType,
+  props: Record<string, unknown>,
+  key?: VNodeKey,
+  _isStaticChildren?: boolean,
+  _source?: unknown,
+  _self?: unknown
+): VNode {
+  return jsx(type, props, key);
+}
@@ -0,0 +1,146 @@
+import type {
+  IntrinsicElements as HostElements,
+  VNode,
+  VNodeKey,
+  VNodeProps,
+  VNodeType
+} from './core/types.js';
+import { createVNode } from './core/vnode.js';
+import { normalizeChildren } from './core/h.js';
+import { Fragment } from './core/fragment.js';
+
+/**
+ * Automatic JSX runtime.
+ *
+ * Used by TypeScript and bundlers with:
+ * "jsx": "react-jsx", "jsxImportSource": "weave"
+ *
+ * The compiler turns <div class="a">{x}</div> into
+ * jsx('div', { class: 'a', children: x }), passing the
+ * key separately. These functions map that call shape
+ * onto the same VNodes `h()` creates.
+ */
+
+/**
+ * Re-export Fragment for `<>...</>` syntax.
+ */
+export { Fragment };
+
+/**
+ * Re-export typed DOM element props.
+ *
+ * Importing them also registers the DOM tags with JSX
+ * type checking in files that only use this runtime.
+ */
+export type { DomElementProps } from './platforms/dom/elements.js';
+
+/**
+ * Create a VNode from a JSX element.
+ *
+ * - `children` is taken out of props and normalized
+ * - `key` is taken out of props and stored on the VNode
+ */
+export function jsx(
+  type: VNodeType,
+  props: Record<string, unknown>,
+  key?: VNodeKey
+): VNode {
+  const { children, key: propsKey, ...rest } = props;
+
+  // The compiler passes the key separately, except when
+  // it is spread in from another object
+  const vnodeKey = key ?? (propsKey as VNodeKey | undefined) ?? null;
+
+  return createVNode(
+    type,
+    rest as VNodeProps,
+    normalizeChildren(children === undefined ? [] : [children]),
+    vnodeKey
+  );
+}
+
+/**
+ * Create a VNode from a JSX element with static children.
+ *
+ * Children arrive as an array; normalization
+ * flattens them exactly like `jsx()`.
+ */
+export const jsxs = jsx;
+
+/**
+ * Any value JSX accepts as a child.
+ */
+export type JSXChild =
+  | VNode
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | readonly JSXChild[];
+
+/**
+ * Host element props with JSX children.
+ */
+type ElementsWithChildren = {
+  [K in keyof HostElements]: HostElements[K] & { children?: JSXChild };
+};
+
+/**
+ * Props of tags missing from the host elements (custom
+ * elements, SVG, ...), like the fallback of `h()`.
+ *
+ * An index signature must fit the named tags too,
+ * hence the union with their props.
+ */
+type UnknownElementProps =
+  | (NonNullable<VNodeProps> & { children?: JSXChild })
+  | ElementsWithChildren[keyof ElementsWithChildren];
+
+/**
+ * JSX type namespace.
+ *
+ * TypeScript resolves it from the runtime module
+ * to type-check elements and their attributes.
+ */
+export namespace JSX {
+  /**
+   * Result type of every JSX expression.
+   */
+  export type Element = VNode;
+
+  /**
+   * Attributes accepted by every intrinsic element.
+   */
+  export interface IntrinsicAttributes {
+    key?: VNodeKey;
+  }
+
+  /**
+   * Props of host elements, by tag name.
+   *
+   * Same per-tag props as `h()`, plus `children`.
+   * Unknown tags accept any props.
+   */
+  export interface IntrinsicElements extends ElementsWithChildren {
+    [tag: string]: UnknownElementProps;
+  }
+
+  /**
+   * Children written between tags are checked
+   * against the `children` prop.
+   */
+  export interface ElementChildrenAttribute {
+    children: {};
+  }
+
+  /**
+   * Components declare `children` as required
+   * (see ComponentProps); in JSX it may be omitted.
+   */
+  export type LibraryManagedAttributes<_C, P> = P extends {
+    readonly children: unknown;
+  }
+    ? Omit<P, 'children'> & { children?: JSXChild }
+    : P;
+}
@@ -0,0 +1,170 @@
+import type {
+  Ref,
+  RefObject,
+  VNodeHooks,
+  VNodeKey
+} from '../../core/types.js';
+
+/**
+ * Typed props for DOM elements.
+ *
+ * The core `IntrinsicElements` map is empty so that it stays
+ * platform-agnostic. This module fills it with every tag of
+ * `HTMLElementTagNameMap`, so `h('input', { ... })` is checked
+ * against input props: typos like `onlick` or `clas` no longer
+ * compile, event handlers receive typed events, and lifecycle
+ * hooks and refs receive the right element subtype.
+ */
+
+/**
+ * Values `domHost.setProp` turns into attributes.
+ *
+ * false / null / undefined remove the attribute.
+ */
+export type AttributeValue = string | number | boolean | null | undefined;
+
+/**
+ * DOM event listener with a typed `currentTarget`.
+ */
+export type EventHandler<E extends Element, Ev extends Event> = (
+  event: Ev & { readonly currentTarget: E }
+) => void;
+
+/**
+ * camelCase spellings of multi-word events.
+ *
+ * `domHost` lower-cases event names, so `onMouseDown`
+ * and `onmousedown` both listen to `mousedown`.
+ */
+interface CamelCaseEvents {
+  DblClick: 'dblclick';
+  ContextMenu: 'contextmenu';
+  MouseDown: 'mousedown';
+  MouseUp: 'mouseup';
+  MouseMove: 'mousemove';
+  MouseEnter: 'mouseenter';
+  MouseLeave: 'mouseleave';
+  MouseOver: 'mouseover';
+  MouseOut: 'mouseout';
+  PointerDown: 'pointerdown';
+  PointerUp: 'pointerup';
+  PointerMove: 'pointermove';
+  PointerEnter: 'pointerenter';
+  PointerLeave: 'pointerleave';
+  PointerOver: 'pointerover';
+  PointerOut: 'pointerout';
+  PointerCancel: 'pointercancel';
+  TouchStart: 'touchstart';
+  TouchEnd: 'touchend';
+  TouchMove: 'touchmove';
+  TouchCancel: 'touchcancel';
+  KeyDown: 'keydown';
+  KeyUp: 'keyup';
+  KeyPress: 'keypress';
+  FocusIn: 'focusin';
+  FocusOut: 'focusout';
+  BeforeInput: 'beforeinput';
+  DragStart: 'dragstart';
+  DragEnd: 'dragend';
+  DragEnter: 'dragenter';
+  DragLeave: 'dragleave';
+  DragOver: 'dragover';
+  AnimationStart: 'animationstart';
+  AnimationEnd: 'animationend';
+  AnimationIteration: 'animationiteration';
+  TransitionStart: 'transitionstart';
+  TransitionEnd: 'transitionend';
+  TransitionRun: 'transitionrun';
+  TransitionCancel: 'transitioncancel';
+  CompositionStart: 'compositionstart';
+  CompositionEnd: 'compositionend';
+  CompositionUpdate: 'compositionupdate';
+}
+
+/**
+ * Event handler props for an element.
+ *
+ * Accepts `onclick`, `onClick` and `onMouseDown` style names.
+ */
+export type EventProps<E extends Element> = {
+  [K in keyof HTMLElementEventMap as
+    | `on${K}`
+    | `on${Capitalize<K>}`]?: EventHandler<E, HTMLElementEventMap[K]>;
+} & {
+  [K in keyof CamelCaseEvents as `on${K}`]?: EventHandler<
+    E,
+    HTMLElementEventMap[CamelCaseEvents[K]]
+  >;
+};
+
+/**
+ * Attributes shared by all HTML elements.
+ */
+export interface GlobalAttributes {
+  class?: AttributeValue;
+  id?: AttributeValue;
+  style?: AttributeValue;
+  title?: AttributeValue;
+  lang?: AttributeValue;
+  dir?: AttributeValue;
+  hidden?: AttributeValue;
+  tabindex?: AttributeValue;
+  role?: AttributeValue;
+  slot?: AttributeValue;
+  draggable?: AttributeValue;
+  contenteditable?: AttributeValue;
+  spellcheck?: AttributeValue;
+  translate?: AttributeValue;
+  autofocus?: AttributeValue;
+  accesskey?: AttributeValue;
+  inputmode?: AttributeValue;
+  enterkeyhint?: AttributeValue;
+  popover?: AttributeValue;
+  part?: AttributeValue;
+  is?: AttributeValue;
+  for?: AttributeValue;
+  [data: `data-${string}`]: AttributeValue;
+  [aria: `aria-${string}`]: AttributeValue;
+}
+
+/**
+ * Primitive properties an element adds on top of HTMLElement
+ * (`value`, `checked`, `href`, `colSpan`, ...).
+ *
+ * HTML attribute names are case-insensitive, so these can be
+ * set as attributes by their property names.
+ */
+type ElementAttributes<E extends HTMLElement> = {
+  [K in Exclude<keyof E, keyof HTMLElement> as E[K] extends
+    | string
+    | number
+    | boolean
+    ? K
+    : never]?: AttributeValue;
+};
+
+/**
+ * All props accepted by a DOM element.
+ */
+export type DomElementProps<E extends HTMLElement> = GlobalAttributes &
+  ElementAttributes<E> &
+  EventProps<E> & {
+    key?: VNodeKey;
+    hooks?: VNodeHooks<E>;
+
+    // A plain HTMLElement ref fits every element
+    ref?: Ref<E> | RefObject<HTMLElement>;
+  };
+
+/**
+ * Props of every HTML element, by tag name.
+ */
+export type DomElements = {
+  [K in keyof HTMLElementTagNameMap]: DomElementProps<
+    HTMLElementTagNameMap[K]
+  >;
+};
+
+declare module '../../core/types.js' {
+  interface IntrinsicElements extends DomElements {}
+}
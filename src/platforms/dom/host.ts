@@ -1,19 +1,68 @@
+import type { VNodeProps } from '../../core/types.js';
 import type { HostConfig } from '../../renderer/createRenderer.js';
 
-type DomNode = HTMLElement | Text;
+type DomNode = Element | Text;
+
+/**
+ * Namespaces of elements and prefixed attributes.
+ *
+ * HTML elements use `createElement()` and need none.
+ */
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+
+const attributeNamespaces: Record<string, string> = {
+  xlink: 'http://www.w3.org/1999/xlink',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+  xmlns: 'http://www.w3.org/2000/xmlns/'
+};
+
+/**
+ * Namespace of a prefixed attribute such as `xlink:href`,
+ * or of `xmlns` itself. Null for plain attributes.
+ */
+function attributeNamespace(key: string): string | null {
+  if (key === 'xmlns') return attributeNamespaces.xmlns!;
+
+  const colon = key.indexOf(':');
+  return colon === -1 ? null : attributeNamespaces[key.slice(0, colon)] ?? null;
+}
+
+/**
+ * Remove an attribute, namespaced ones by their local name.
+ */
+function removeAttribute(node: Element, key: string): void {
+  const namespace = attributeNamespace(key);
+  if (namespace) {
+    node.removeAttributeNS(namespace, key.slice(key.indexOf(':') + 1));
+  } else {
+    node.removeAttribute(key);
+  }
+}
+
+/**
+ * Attribute value `setProp()` writes for a prop value,
+ * or null when it writes none.
+ */
+function attributeValue(value: unknown): string | null {
+  if (value === false || value === null || value === undefined) return null;
+
+  // Functions are event listeners
+  return typeof value === 'function' ? null : String(value);
+}
 
 /**
  * Stores event listeners per element.
  *
  * Structure:
- * WeakMap<HTMLElement, Map<eventName, listener>>
+ * WeakMap<Element, Map<eventName, listener>>
  *
  * Why WeakMap?
  * - When a DOM node is removed, the entry is automatically garbage collected.
  * - Prevents memory leaks.
  */
 const eventListenerMap = new WeakMap<
-  HTMLElement,
+  Element,
   Map<string, EventListener>
 >();
 
@@ -29,9 +78,17 @@ const eventListenerMap = new WeakMap<
 export const domHost: HostConfig<DomNode> = {
   /**
    * Create a DOM element.
+   *
+   * `svg` and `math` start their namespace; other elements
+   * stay in the namespace of their parent's children.
    */
-  createElement(type: string): HTMLElement {
-    return document.createElement(type);
+  createElement(type: string, namespace: string | null): Element {
+    if (type === 'svg') namespace = SVG_NAMESPACE;
+    else if (type === 'math') namespace = MATHML_NAMESPACE;
+
+    return namespace
+      ? document.createElementNS(namespace, type)
+      : document.createElement(type);
   },
 
   /**
@@ -46,11 +103,12 @@ export const domHost: HostConfig<DomNode> = {
    *
    * Handles:
    * - Event listeners (onClick, onInput, etc.)
+   * - Namespaced attributes (xlink:href, xml:lang)
    * - Normal attributes
    */
   setProp(node: DomNode, key: string, value: unknown): void {
     // Only elements support attributes and events
-    if (!(node instanceof HTMLElement)) return;
+    if (!(node instanceof Element)) return;
 
     // ---- EVENT HANDLING ----
     // Props starting with "on" are treated as event listeners
@@ -79,23 +137,29 @@ export const domHost: HostConfig<DomNode> = {
     // ---- ATTRIBUTE HANDLING ----
     // Remove attribute if value is falsy in a DOM sense
     if (value === false || value === null || value === undefined) {
-      node.removeAttribute(key);
+      removeAttribute(node, key);
       return;
     }
 
     // Otherwise set as string attribute
-    node.setAttribute(key, String(value));
+    const namespace = attributeNamespace(key);
+    if (namespace) {
+      node.setAttributeNS(namespace, key, String(value));
+    } else {
+      node.setAttribute(key, String(value));
+    }
   },
 
   /**
    * Remove a property from a node.
    *
-   * Handles both:
+   * Handles:
    * - Event listeners
+   * - Namespaced attributes
    * - Normal attributes
    */
   removeProp(node: DomNode, key: string): void {
-    if (!(node instanceof HTMLElement)) return;
+    if (!(node instanceof Element)) return;
 
     // Remove event listener
     if (key.startsWith('on')) {
@@ -110,8 +174,8 @@ export const domHost: HostConfig<DomNode> = {
       return;
     }
 
-    // Remove normal attribute
-    node.removeAttribute(key);
+    // Remove attribute
+    removeAttribute(node, key);
   },
 
   /**
@@ -121,7 +185,7 @@ export const domHost: HostConfig<DomNode> = {
    * to preserve correct ordering.
    */
   insert(parent: DomNode, child: DomNode, index: number): void {
-    if (!(parent instanceof HTMLElement)) return;
+    if (!(parent instanceof Element)) return;
 
     const refNode = parent.childNodes[index] ?? null;
     parent.insertBefore(child, refNode);
@@ -135,5 +199,79 @@ export const domHost: HostConfig<DomNode> = {
     if (parent) {
       parent.removeChild(node);
     }
+  },
+
+  /**
+   * Namespace the children of a node are created in.
+   *
+   * Children of `foreignObject` are HTML again;
+   * HTML itself is the default namespace.
+   */
+  childNamespace(node: DomNode): string | null {
+    if (!(node instanceof Element)) return null;
+    if (node.localName === 'foreignObject') return null;
+
+    return node.namespaceURI === SVG_NAMESPACE ||
+      node.namespaceURI === MATHML_NAMESPACE
+      ? node.namespaceURI
+      : null;
+  },
+
+  /**
+   * List the child nodes of a node, for hydration.
+   *
+   * Comments are included: the renderer skips them
+   * through `nodeName()`.
+   */
+  childNodes(parent: DomNode): DomNode[] {
+    return Array.from(parent.childNodes) as DomNode[];
+  },
+
+  /**
+   * Compare the attributes of an adopted element with
+   * its props, for hydration.
+   *
+   * Attributes no prop sets are removed. Boolean attributes
+   * written without a value match `true`.
+   */
+  hydrateProps(node: DomNode, props: VNodeProps): string[] {
+    if (!(node instanceof Element)) return [];
+
+    // HTML attribute names are case-insensitive
+    const html = node instanceof HTMLElement;
+    const values = new Map<string, unknown>();
+    for (const key in props) {
+      values.set(html ? key.toLowerCase() : key, props[key]);
+    }
+
+    const mismatches: string[] = [];
+
+    for (const { name, value } of Array.from(node.attributes)) {
+      const expected = attributeValue(values.get(name));
+
+      if (expected === null) {
+        mismatches.push(`unexpected attribute ${name}`);
+        removeAttribute(node, name);
+      } else if (value !== expected && !(expected === 'true' && value === '')) {
+        mismatches.push(
+          `expected ${name}=${JSON.stringify(expected)}, found ${JSON.stringify(value)}`
+        );
+      }
+    }
+
+    return mismatches;
+  },
+
+  /**
+   * Name a node for hydration:
+   * the tag of elements, "#text" for text nodes,
+   * null for anything else.
+   */
+  nodeName(node: DomNode): string | null {
+    if (node.nodeType === Node.TEXT_NODE) return '#text';
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      return (node as Element).localName.toLowerCase();
+    }
+    return null;
   }
 };
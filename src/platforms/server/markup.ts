@@ -0,0 +1,164 @@
+import type { VNodeProps } from '../../core/types.js';
+
+/**
+ * HTML serialization rules shared by the server renderers.
+ *
+ * Attributes follow the DOM host: a prop renders as the
+ * attribute `setProp()` would set, so hydration adopts
+ * the markup as it is.
+ */
+
+/**
+ * Elements without content or closing tag.
+ */
+const voidElements = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr'
+]);
+
+/**
+ * Elements whose text content is not parsed as HTML,
+ * so it is written as it is.
+ */
+const rawTextElements = new Set(['script', 'style']);
+
+/**
+ * Attributes whose presence means true.
+ *
+ * `true` renders them without a value; other attributes
+ * get "true", as `setAttribute()` would set.
+ */
+const booleanAttributes = new Set([
+  'allowfullscreen',
+  'async',
+  'autofocus',
+  'autoplay',
+  'checked',
+  'controls',
+  'default',
+  'defer',
+  'disabled',
+  'formnovalidate',
+  'hidden',
+  'inert',
+  'ismap',
+  'itemscope',
+  'loop',
+  'multiple',
+  'muted',
+  'nomodule',
+  'novalidate',
+  'open',
+  'playsinline',
+  'readonly',
+  'required',
+  'reversed',
+  'selected'
+]);
+
+/**
+ * Props that never become attributes: identity and
+ * lifecycle props of the renderer.
+ */
+const reservedProps = new Set(['key', 'ref', 'hooks', 'children']);
+
+/**
+ * Characters that end a tag or attribute name.
+ */
+const invalidName = /[\s"'<>/=\0]/;
+
+/**
+ * Whether an element has no content or closing tag.
+ */
+export function isVoidElement(tag: string): boolean {
+  return voidElements.has(tag.toLowerCase());
+}
+
+/**
+ * Escape text content.
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape an attribute value for double quotes.
+ */
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Serialize the text content of an element.
+ *
+ * Script and style content is written as it is;
+ * text that would close the element early is rejected.
+ */
+export function renderTextContent(tag: string, text: string): string {
+  const name = tag.toLowerCase();
+  if (!rawTextElements.has(name)) return escapeText(text);
+
+  if (text.toLowerCase().includes(`</${name}`)) {
+    throw new Error(`Text of <${tag}> must not contain "</${name}"`);
+  }
+  return text;
+}
+
+/**
+ * Serialize the opening tag of an element.
+ *
+ * Left out:
+ * - `on*` props: handlers are attached by hydration
+ * - `key`, `ref` and `hooks`
+ * - false, null and undefined values
+ */
+export function renderOpeningTag(tag: string, props: VNodeProps): string {
+  checkName(tag, 'tag');
+
+  let html = `<${tag}`;
+
+  for (const key in props) {
+    const value = props[key];
+
+    if (reservedProps.has(key) || key.startsWith('on')) continue;
+    if (value === false || value === null || value === undefined) continue;
+
+    checkName(key, 'attribute');
+
+    if (value === true && booleanAttributes.has(key.toLowerCase())) {
+      html += ` ${key}`;
+    } else {
+      html += ` ${key}="${escapeAttribute(String(value))}"`;
+    }
+  }
+
+  return `${html}>`;
+}
+
+/**
+ * Reject names that would break out of the tag,
+ * like `createElement()` and `setAttribute()` do.
+ */
+function checkName(name: string, kind: 'tag' | 'attribute'): void {
+  if (name === '' || invalidName.test(name)) {
+    throw new Error(`Invalid ${kind} name "${name}"`);
+  }
+}
@@ -0,0 +1,299 @@
+import type { VNode, VNodeChildren } from '../../core/types.js';
+import { Fragment } from '../../core/fragment.js';
+import { TextNode } from '../../core/text.js';
+import { isComponent, renderComponent } from '../../core/component.js';
+import { isThunk, renderThunk } from '../../core/thunk.js';
+import { childScopeOf, isProvider, updateProvider } from '../../core/context.js';
+import type { ContextScope } from '../../core/context.js';
+import { isPortal } from '../../core/portal.js';
+import { catchError, hasCaught, isBoundary } from '../../core/boundary.js';
+import { catchSuspension, isSuspense, isSuspension } from '../../core/suspense.js';
+import {
+  isVoidElement,
+  renderOpeningTag,
+  renderTextContent
+} from './markup.js';
+
+/**
+ * Tree walk shared by the server renderers.
+ *
+ * Rendering is a generator that pauses after every element
+ * it has written, so a stream can hand out the markup of
+ * finished subtrees and stop while its reader is behind.
+ */
+export type RenderTask = Generator<void, void, void>;
+
+/**
+ * Hooks of a streamed render.
+ *
+ * - placeholder: returns a new placeholder id
+ * - suspend: called when the content of a Suspense boundary
+ *   suspends. Returns the id of a placeholder around the
+ *   fallback, which the content replaces once it has loaded.
+ * - replace: sends markup that replaces the content of a
+ *   placeholder, e.g. the fallback of a boundary that failed
+ *   after part of its markup was sent
+ */
+export interface StreamHooks {
+  placeholder(): string;
+  suspend(
+    boundary: VNode,
+    scope: ContextScope | null,
+    promise: Promise<unknown>
+  ): string;
+  replace(id: string, html: string): void;
+}
+
+/**
+ * Boundary whose markup is being written.
+ */
+interface OpenBoundary {
+  // Where its markup starts in `html`
+  start: number;
+
+  // Placeholder around its markup, once part of it has
+  // been taken (see takeHtml)
+  id: string | null;
+}
+
+/**
+ * Markup written so far.
+ */
+export interface Output {
+  html: string;
+
+  // Tags of the elements being written, outermost first
+  open: string[];
+
+  // Whether the last host node written is a text node:
+  // adjacent text is separated by an empty comment, so
+  // hydration finds one text node per text VNode
+  afterText: boolean;
+
+  // Boundaries being written, outermost first. Their markup
+  // may still be replaced by a fallback.
+  boundaries: OpenBoundary[];
+
+  stream: StreamHooks | null;
+}
+
+/**
+ * Create an empty output.
+ */
+export function createOutput(stream: StreamHooks | null = null): Output {
+  return { html: '', open: [], afterText: false, boundaries: [], stream };
+}
+
+/**
+ * Take the markup written so far, e.g. to send it.
+ *
+ * Boundaries still being written get a placeholder opened
+ * at their start first: should they fail, their fallback
+ * replaces what was sent (see StreamHooks.replace).
+ */
+export function takeHtml(out: Output): string {
+  let html = out.html;
+
+  // Innermost first, so the starts of outer ones stay valid
+  for (let i = out.boundaries.length - 1; i >= 0; i--) {
+    const boundary = out.boundaries[i]!;
+    if (boundary.id !== null) continue;
+
+    boundary.id = out.stream!.placeholder();
+    html =
+      html.slice(0, boundary.start) +
+      `<!--${boundary.id}-->` +
+      html.slice(boundary.start);
+  }
+
+  out.html = '';
+  return html;
+}
+
+/**
+ * Run a render task without pausing.
+ */
+export function runToEnd(task: RenderTask): void {
+  while (!task.next().done);
+}
+
+/**
+ * Write the markup of a VNode.
+ *
+ * `scope` holds the context providers above the node.
+ */
+export function* renderNode(
+  vnode: VNode,
+  scope: ContextScope | null,
+  out: Output
+): RenderTask {
+  // ---- COMPONENT ----
+  if (isComponent(vnode)) {
+    const output = renderComponent(vnode, null, scope);
+    if (isProvider(vnode)) updateProvider(vnode, null);
+
+    const childScope = childScopeOf(vnode, scope);
+    if (isBoundary(vnode) || isSuspense(vnode)) {
+      yield* renderBoundaryChild(vnode, output, childScope, out);
+    } else if (output) {
+      yield* renderNode(output, childScope, out);
+    }
+    return;
+  }
+
+  // ---- THUNK ----
+  if (isThunk(vnode)) {
+    const output = renderThunk(vnode);
+    if (output) yield* renderNode(output, scope, out);
+    return;
+  }
+
+  // ---- PORTAL ----
+  if (isPortal(vnode)) return;
+
+  // ---- TEXT / FRAGMENT ----
+  if (vnode.type === TextNode || vnode.type === Fragment) {
+    yield* renderChildren(vnode.children, scope, out);
+    return;
+  }
+
+  // ---- ELEMENT ----
+  const tag = vnode.type as string;
+  out.html += renderOpeningTag(tag, vnode.props);
+  out.afterText = false;
+
+  if (isVoidElement(tag)) {
+    if (vnode.children && vnode.children.length > 0) {
+      throw new Error(`<${tag}> is a void element and cannot have children`);
+    }
+    yield;
+    return;
+  }
+
+  out.open.push(tag);
+  yield* renderChildren(vnode.children, scope, out);
+  out.open.pop();
+
+  out.html += `</${tag}>`;
+  out.afterText = false;
+  yield;
+}
+
+/**
+ * Write text or a list of child VNodes.
+ */
+export function* renderChildren(
+  children: VNodeChildren,
+  scope: ContextScope | null,
+  out: Output
+): RenderTask {
+  if (typeof children === 'string') {
+    // Empty text has no host node
+    if (children === '') return;
+
+    if (out.afterText) out.html += '<!---->';
+    out.html += renderTextContent(out.open[out.open.length - 1] ?? '', children);
+    out.afterText = true;
+  } else if (children) {
+    for (const child of children) {
+      yield* renderNode(child, scope, out);
+    }
+  }
+}
+
+/**
+ * Write the output of an error or Suspense boundary,
+ * or its fallback when the output throws what the
+ * boundary catches.
+ *
+ * When part of the output has been taken already, what it
+ * left open is closed and the fallback replaces it later.
+ */
+function* renderBoundaryChild(
+  vnode: VNode,
+  output: VNode | null,
+  scope: ContextScope | null,
+  out: Output
+): RenderTask {
+  if (!output) return;
+
+  const { afterText } = out;
+  const depth = out.open.length;
+  const boundary: OpenBoundary = { start: out.html.length, id: null };
+  let failure: { error: unknown } | null = null;
+  out.boundaries.push(boundary);
+
+  try {
+    yield* renderNode(output, scope, out);
+  } catch (error) {
+    const caught = isSuspension(error)
+      ? isSuspense(vnode)
+      : isBoundary(vnode) && !hasCaught(vnode);
+    if (!caught) throw error;
+
+    failure = { error };
+  } finally {
+    out.boundaries.pop();
+  }
+
+  if (!failure) {
+    if (boundary.id !== null) {
+      out.html += `<!--/${boundary.id}-->`;
+      out.afterText = false;
+    }
+    return;
+  }
+
+  const closing = out.open.splice(depth).reverse();
+
+  if (boundary.id === null) {
+    // Drop what the failed output wrote
+    out.html = out.html.slice(0, boundary.start);
+    out.afterText = afterText;
+    yield* renderFallback(vnode, failure.error, scope, out);
+    return;
+  }
+
+  out.html +=
+    closing.map(tag => `</${tag}>`).join('') + `<!--/${boundary.id}-->`;
+  out.afterText = false;
+
+  const replacement = createOutput(out.stream);
+  yield* renderFallback(vnode, failure.error, scope, replacement);
+  out.stream!.replace(boundary.id, replacement.html);
+}
+
+/**
+ * Write the fallback of a boundary for a caught value.
+ *
+ * The fallback of a suspended Suspense boundary goes
+ * inside a placeholder when streaming:
+ * "<!--id-->fallback<!--/id-->".
+ */
+function* renderFallback(
+  vnode: VNode,
+  error: unknown,
+  scope: ContextScope | null,
+  out: Output
+): RenderTask {
+  if (!isSuspension(error)) {
+    const fallback = catchError(vnode, error);
+    if (fallback) yield* renderNode(fallback, scope, out);
+    return;
+  }
+
+  const fallback = catchSuspension(vnode, error);
+  const id = out.stream?.suspend(vnode, scope, error) ?? null;
+
+  if (id !== null) {
+    out.html += `<!--${id}-->`;
+    out.afterText = false;
+  }
+
+  if (fallback) yield* renderNode(fallback, scope, out);
+
+  if (id !== null) {
+    out.html += `<!--/${id}-->`;
+    out.afterText = false;
+  }
+}
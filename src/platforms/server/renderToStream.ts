@@ -0,0 +1,232 @@
+import type { VNode } from '../../core/types.js';
+import type { ContextScope } from '../../core/context.js';
+import { renderComponent } from '../../core/component.js';
+import { isSuspension, unhandledSuspension } from '../../core/suspense.js';
+import { createOutput, renderNode, runToEnd, takeHtml } from './render.js';
+import type { RenderTask, StreamHooks } from './render.js';
+
+/**
+ * Options of a streamed render.
+ *
+ * - highWaterMark: bytes the stream queues before rendering
+ *   pauses until the reader catches up (default: 16384)
+ * - onError: receives errors thrown by content that loaded
+ *   after its fallback was sent; that fallback stays.
+ *   Without it, such errors fail the stream.
+ */
+export interface StreamOptions {
+  highWaterMark?: number;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Suspense boundary whose content is sent later.
+ */
+interface PendingBoundary {
+  // Placeholder around the fallback, and id of the
+  // template holding the content
+  id: string;
+
+  vnode: VNode;
+  scope: ContextScope | null;
+}
+
+/**
+ * Inline script that moves the content of a template into
+ * its placeholder, replacing what the placeholder holds.
+ *
+ * Placeholders dropped by an error boundary are skipped.
+ */
+const swapScript =
+  '<script>function $weave(i){' +
+  'var t=document.getElementById(i),' +
+  'w=document.createTreeWalker(document,128),s,n;' +
+  'while((s=w.nextNode())&&s.data!==i);' +
+  'if(!s||!t)return;' +
+  'for(n=s.nextSibling;n.data!=="/"+i;n=s.nextSibling)n.remove();' +
+  'n.replaceWith(t.content);s.remove();t.remove()' +
+  '}</script>';
+
+/**
+ * Template with the markup that replaces the content of
+ * a placeholder, and the script that swaps it in.
+ */
+function template(id: string, html: string): string {
+  return `<template id="${id}">${html}</template><script>$weave("${id}")</script>`;
+}
+
+/**
+ * Number of bytes of a string in UTF-8, from `start`.
+ */
+function byteLength(text: string, start: number): number {
+  let bytes = 0;
+
+  for (let i = start; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length) {
+      // Surrogate pair
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+
+  return bytes;
+}
+
+/**
+ * Render a VNode tree to a stream of UTF-8 encoded HTML.
+ *
+ * The page is sent in finished subtrees as the reader asks
+ * for more, so a slow reader pauses rendering. A boundary
+ * still being written when a chunk is sent gets a placeholder
+ * around its markup: should it fail later, its fallback
+ * follows the page and replaces what was sent.
+ *
+ * Suspense boundaries whose content suspends send their
+ * fallback inside a placeholder. Once the content has
+ * loaded, it follows the page in a <template> with an
+ * inline script that swaps it in, in whatever order
+ * boundaries finish. The stream ends when all have.
+ *
+ * It is a web ReadableStream, which Node turns into a
+ * Readable with `Readable.fromWeb()`.
+ */
+export function renderToStream(
+  vnode: VNode | null,
+  options: StreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  // Boundaries whose content has not been rendered yet,
+  // and the markup of the ones that have
+  let waiting = 0;
+  const completed: string[] = [];
+  let failure: { error: unknown } | null = null;
+
+  let nextId = 0;
+  let scriptSent = false;
+  let cancelled = false;
+
+  // Resolves a pull() waiting for a boundary
+  let wake: (() => void) | null = null;
+
+  const hooks: StreamHooks = {
+    placeholder: () => `weave:${nextId++}`,
+
+    suspend(boundary, scope, promise) {
+      const pending = { id: hooks.placeholder(), vnode: boundary, scope };
+      waiting++;
+      retryAfter(pending, promise);
+      return pending.id;
+    },
+
+    replace(id, html) {
+      completed.push(template(id, html));
+    }
+  };
+
+  const page = createOutput(hooks);
+  let task: RenderTask | null = vnode && renderNode(vnode, null, page);
+
+  /**
+   * Render a boundary's content once a promise settles.
+   */
+  function retryAfter(pending: PendingBoundary, promise: Promise<unknown>): void {
+    const retry = () => {
+      if (cancelled) return;
+      resume(pending);
+
+      const resolve = wake;
+      wake = null;
+      resolve?.();
+    };
+    promise.then(retry, retry);
+  }
+
+  /**
+   * Render the content of a boundary into its template,
+   * or wait again when it suspends once more.
+   */
+  function resume(pending: PendingBoundary): void {
+    const out = createOutput(hooks);
+
+    try {
+      const output = renderComponent(pending.vnode, null, pending.scope);
+      if (output) runToEnd(renderNode(output, pending.scope, out));
+    } catch (error) {
+      if (isSuspension(error)) {
+        retryAfter(pending, error);
+        return;
+      }
+
+      waiting--;
+      if (options.onError) options.onError(error);
+      else failure ??= { error };
+      return;
+    }
+
+    waiting--;
+    completed.push(template(pending.id, out.html));
+  }
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const size = Math.max(controller.desiredSize ?? 0, 1);
+
+        // The page first, as far as it is written. Markup of
+        // boundaries still being written is sent too: should
+        // one fail, its fallback replaces that markup later.
+        try {
+          let bytes = 0;
+          let measured = 0;
+
+          while (task && bytes < size) {
+            if (task.next().done) task = null;
+
+            // A failed boundary may have dropped markup
+            if (page.html.length < measured) measured = bytes = 0;
+            bytes += byteLength(page.html, measured);
+            measured = page.html.length;
+          }
+        } catch (error) {
+          throw isSuspension(error) ? unhandledSuspension() : error;
+        }
+
+        let chunk = takeHtml(page);
+
+        // Then the boundaries, as their content arrives
+        while (!task && chunk === '') {
+          if (failure) throw failure.error;
+
+          if (completed.length > 0) {
+            if (!scriptSent) chunk += swapScript;
+            scriptSent = true;
+            chunk += completed.splice(0).join('');
+          } else if (waiting === 0) {
+            controller.close();
+            return;
+          } else {
+            await new Promise<void>(resolve => {
+              wake = resolve;
+            });
+          }
+        }
+
+        controller.enqueue(encoder.encode(chunk));
+      },
+
+      cancel() {
+        cancelled = true;
+        task = null;
+      }
+    },
+    {
+      highWaterMark: options.highWaterMark ?? 16384,
+      size: chunk => chunk.byteLength
+    }
+  );
+}
@@ -0,0 +1,27 @@
+import type { VNode } from '../../core/types.js';
+import { isSuspension, unhandledSuspension } from '../../core/suspense.js';
+import { createOutput, renderNode, runToEnd } from './render.js';
+
+/**
+ * Render a VNode tree to an HTML string.
+ *
+ * Runs without a DOM, e.g. in Node. Components render
+ * once, as on a first mount, but effects, refs and
+ * lifecycle hooks never run. Portals render nothing:
+ * their content is created when the page hydrates.
+ *
+ * Error boundaries and Suspense boundaries render their
+ * fallback for what they catch; a lazy component that has
+ * not loaded yet renders the Suspense fallback.
+ */
+export function renderToString(vnode: VNode | null): string {
+  const out = createOutput();
+
+  try {
+    if (vnode) runToEnd(renderNode(vnode, null, out));
+  } catch (error) {
+    throw isSuspension(error) ? unhandledSuspension() : error;
+  }
+
+  return out.html;
+}
@@ -1,7 +1,34 @@
-import type { VNode } from '../core/types.js';
+import type { Ref, VNode, VNodeProps } from '../core/types.js';
 import type { Patch } from '../core/patch-types.js';
-import { diff } from '../core/diff.js';
-import { createMetrics, recordUpdate, updateSlowestPatchType, recordPatch } from './metrics.js';
+import { createDiffTask, diff, diffComponent } from '../core/diff.js';
+import type { DiffTask } from '../core/diff.js';
+import { Fragment } from '../core/fragment.js';
+import { TextNode } from '../core/text.js';
+import {
+  getInstance,
+  isComponent,
+  renderComponent
+} from '../core/component.js';
+import type { ComponentInstance } from '../core/component.js';
+import { runEffects, unmountInstance } from '../core/hooks.js';
+import { setRef } from '../core/ref.js';
+import { isThunk, renderThunk, renderedThunkOf } from '../core/thunk.js';
+import { childScopeOf, isProvider, updateProvider } from '../core/context.js';
+import type { ContextScope } from '../core/context.js';
+import { isPortal, portalContainer } from '../core/portal.js';
+import { catchError, hasCaught, isBoundary } from '../core/boundary.js';
+import {
+  catchSuspension,
+  isSuspense,
+  isSuspension,
+  unhandledSuspension
+} from '../core/suspense.js';
+import { rollback, withJournal } from '../core/journal.js';
+import type { Journal } from '../core/journal.js';
+import { warn } from '../core/dev.js';
+import { createMetrics, recordUpdate, updateSlowestPatchType, recordPatch, recordSlices } from './metrics.js';
+import { microtaskScheduler, timeoutScheduler } from './scheduler.js';
+import type { Scheduler } from './scheduler.js';
 
 /**
  * Internal VNode type with renderer-only identity.
@@ -9,6 +36,46 @@ import { createMetrics, recordUpdate, updateSlowestPatchType, recordPatch } from
  */
 type VNodeWithId = VNode & { __id: number };
 
+/**
+ * Whether a VNode is backed by a host element,
+ * the only kind of node that carries props and hooks.
+ */
+function isElement(vnode: VNode): boolean {
+  return typeof vnode.type === 'string';
+}
+
+/**
+ * Renderer-side record of a mounted VNode.
+ *
+ * Host elements own exactly one host node.
+ * Fragments, components, thunks and text VNodes own none:
+ * their host nodes are their text node or the flattened
+ * host nodes of their children (a component's only child
+ * is its rendered output), so every record keeps its live children and
+ * parent to locate them in the host.
+ *
+ * Portals own no host node in their parent either: their
+ * children live in their `target` container instead.
+ */
+interface MountedNode<Node> {
+  vnode: VNodeWithId;
+
+  // Host element owned by this VNode (null for non-elements)
+  node: Node | null;
+
+  // Host text node for string children (null when empty)
+  text: Node | null;
+
+  // Host container of a portal (null for non-portals)
+  target: Node | null;
+
+  parent: MountedNode<Node> | null;
+  children: MountedNode<Node>[];
+
+  // True while a remove hook delays the host removal
+  removing: boolean;
+}
+
 /**
  * Host configuration interface.
  *
@@ -18,12 +85,61 @@ type VNodeWithId = VNode & { __id: number };
  * This keeps the renderer platform-agnostic.
  */
 export interface HostConfig<Node> {
-  createElement(type: string): Node;
+  // `namespace` is the one the parent's children are
+  // created in (see childNamespace), null for the default
+  createElement(type: string, namespace: string | null): Node;
   createText(text: string): Node;
   setProp(node: Node, key: string, value: unknown): void;
   removeProp(node: Node, key: string): void;
   insert(parent: Node, child: Node, index: number): void;
   remove(node: Node): void;
+
+  // Namespace the children of a node are created in
+  // (optional: hosts without namespaces leave it out)
+  childNamespace?(node: Node): string | null;
+
+  // ---- Hydration (optional) ----
+  // Needed by hydrate() only.
+  // nodeName() returns the lowercase tag of elements,
+  // "#text" for text and null for any other node.
+  // hydrateProps() removes the attributes of an adopted
+  // element that its props do not set, and describes each
+  // attribute that does not match; setProp() then sets
+  // the props as usual.
+  childNodes?(parent: Node): Node[];
+  nodeName?(node: Node): string | null;
+  hydrateProps?(node: Node, props: VNodeProps): string[];
+}
+
+/**
+ * Host that implements the methods hydrate() needs.
+ */
+type HydratingHost<Node> = HostConfig<Node> &
+  Required<Pick<HostConfig<Node>, 'childNodes' | 'nodeName'>>;
+
+/**
+ * Whether a host can adopt existing nodes.
+ */
+function canHydrate<Node>(host: HostConfig<Node>): host is HydratingHost<Node> {
+  return typeof host.childNodes === 'function' && typeof host.nodeName === 'function';
+}
+
+/**
+ * Position of hydration within the existing
+ * children of a host node.
+ */
+interface HydrationCursor<Node> {
+  host: HydratingHost<Node>;
+
+  // Existing children not yet removed, and the next one
+  nodes: Node[];
+  index: number;
+
+  // Host nodes adopted or created so far
+  placed: number;
+
+  // Path of the host node, for mismatch reports
+  path: string;
 }
 
 /**
@@ -31,15 +147,76 @@ export interface HostConfig<Node> {
  *
  * Provides:
  * - update(): apply a new VNode tree
+ * - scheduleUpdate(): update later, with the root's
+ *   scheduler; only the latest scheduled tree is rendered
+ * - flush(): run a scheduled update and pending
+ *   component state updates now
+ * - apply(): apply patches diffed elsewhere, such as
+ *   decoded patches (see core/serialize.ts); afterwards
+ *   only unmount() lets the root diff trees again
  * - unmount(): remove everything
  * - metrics: performance and patch statistics
  */
 export interface Root {
   update(vnode: VNode): void;
+  scheduleUpdate(vnode: VNode): void;
+  flush(): void;
+  apply(patches: readonly Patch[]): void;
   unmount(): void;
   metrics: ReturnType<typeof createMetrics>;
 }
 
+/**
+ * Options for a mounted root.
+ *
+ * - onError: receives errors that no error boundary caught.
+ *   Without it, such errors are re-thrown once the update
+ *   has been committed as far as possible.
+ * - scheduler: when `scheduleUpdate()` flushes
+ *   (default: a microtask)
+ * - concurrent: diff updates in time slices (see below)
+ */
+export interface RootOptions {
+  onError?: (error: unknown) => void;
+  scheduler?: Scheduler;
+  concurrent?: ConcurrentOptions;
+}
+
+/**
+ * Options of a concurrent root.
+ *
+ * `update()` only starts the work: the diff runs in slices
+ * of at most `budget` milliseconds, each started by the
+ * scheduler, and the patches are committed all at once
+ * after the last slice. A newer `update()` throws away the
+ * work in progress and restarts from the committed tree.
+ *
+ * - scheduler: starts each slice (default: a macrotask)
+ * - budget: milliseconds of diffing per slice (default: 5)
+ * - now: clock measuring the budget (default: performance.now)
+ */
+export interface ConcurrentOptions {
+  scheduler?: Scheduler;
+  budget?: number;
+  now?: () => number;
+}
+
+/**
+ * Update of a concurrent root that has not committed yet.
+ */
+interface PendingWork {
+  vnode: VNode | null;
+  task: DiffTask;
+
+  // Undo log of the renders done so far
+  journal: Journal;
+
+  slices: number;
+
+  // Time spent in slices so far
+  duration: number;
+}
+
 /**
  * Create a renderer for a specific host.
  *
@@ -51,246 +228,1606 @@ export interface Root {
 export function createRenderer<Node extends { textContent?: string }>(
   host: HostConfig<Node>
 ) {
-  return {
-    mount(vnode: VNode, container: Node): Root {
+  /**
+   * Mounted portals per target container, in mount order.
+   *
+   * Shared by all roots of this renderer, so portals
+   * from different roots can share a container.
+   * Portal content is placed before any other nodes
+   * of the container.
+   */
+  const portalTargets = new Map<Node, MountedNode<Node>[]>();
+
+  /**
+   * Create the function that mounts a root into a container.
+   *
+   * With `hydrating`, the first render adopts the host
+   * nodes already in the container instead of creating them.
+   */
+  const rootFactory = (hydrating: boolean) =>
+    function mount(
+      vnode: VNode | null,
+      container: Node,
+      options: RootOptions = {}
+    ): Root {
       // Current VNode tree
       let currentVNode: VNode | null = null;
 
-      // Actual root node in the host environment
-      let rootNode: Node | null = null;
+      // Whether the root shows patches from apply(), whose
+      // VNode tree only the side that diffed them knows
+      let applied = false;
+
+      // Mounted record of the root VNode
+      let rootRecord: MountedNode<Node> | null = null;
 
       /**
        * Stable identity map.
        *
-       * Maps internal VNode IDs to real host nodes.
+       * Maps internal VNode IDs to their mounted records,
+       * which hold the real host node and tree position.
        * This enables:
        * - Fast lookup during patches
        * - Node reuse
        * - MOVE operations
        */
-      const nodeMap = new Map<number, Node>();
+      const nodeMap = new Map<number, MountedNode<Node>>();
 
       // Renderer metrics
       const metrics = createMetrics();
 
+      // Components rendered during the current commit,
+      // whose effects run once the host is up to date
+      let pendingEffects: ComponentInstance[] = [];
+
+      // Refs to attach once the current commit has
+      // inserted their nodes into the host
+      let pendingRefs: Array<{ ref: Ref; node: Node }> = [];
+
+      // Components that changed their own state
+      const dirtyComponents = new Set<ComponentInstance>();
+      let componentFlushScheduled = false;
+
+      // Boundaries that caught an error or a suspension, with
+      // the first one each caught, waiting to render their fallback
+      const failedBoundaries = new Map<MountedNode<Node>, unknown>();
+
+      // Errors no boundary caught, reported after the update
+      let uncaughtErrors: unknown[] = [];
+
+      // Records created by the current `createTracked()` call
+      let createdRecords: MountedNode<Node>[] | null = null;
+
+      // Latest tree passed to scheduleUpdate(), if any,
+      // and whether its flush has been scheduled
+      let scheduled: { vnode: VNode | null } | null = null;
+      let flushScheduled = false;
+      const updateScheduler = options.scheduler ?? microtaskScheduler;
+
+      // Time slicing of a concurrent root
+      const concurrent = options.concurrent ?? null;
+      const scheduler = concurrent?.scheduler ?? timeoutScheduler;
+      const budget = concurrent?.budget ?? 5;
+      const now = concurrent?.now ?? (() => performance.now());
+
+      // Update being diffed in slices, and whether
+      // its next slice has been scheduled
+      let work: PendingWork | null = null;
+      let sliceScheduled = false;
+
+      // Existing host nodes while the first render hydrates,
+      // the ones adopted so far, which are in place already,
+      // and the mismatches to report once hydration is done
+      let hydration: HydrationCursor<Node> | null = null;
+      const adoptedNodes = new Set<Node>();
+      let mismatches: string[] = [];
+
       /**
-       * Recursively create a host node from a VNode.
+       * Recursively create host nodes from a VNode.
+       *
+       * Element children are inserted into their element here.
+       * The caller is responsible for placing the returned
+       * record's own host nodes.
+       *
+       * `scope` holds the context providers above the node.
        */
-      function createNode(vnode: VNode, _parent: Node): Node {
+      function createNode(
+        vnode: VNode,
+        parent: MountedNode<Node> | null,
+        scope: ContextScope | null
+      ): MountedNode<Node> {
         const v = vnode as VNodeWithId;
 
-        // Create element
-        const node = host.createElement(v.type as string);
+        const record: MountedNode<Node> = {
+          vnode: v,
+          node: null,
+          text: null,
+          target: null,
+          parent,
+          children: [],
+          removing: false
+        };
+
+        // Register node in identity map
+        nodeMap.set(v.__id, record);
+        createdRecords?.push(record);
+
+        // ---- COMPONENT ----
+        // Components own no host node: their rendered
+        // output is mounted as their single child.
+        if (isComponent(v)) {
+          const output = renderComponent(v, null, scope);
+          const instance = getInstance(v)!;
+          instance.scheduleUpdate = () => scheduleComponent(instance);
+
+          if (isProvider(v)) updateProvider(v, null);
+
+          const childScope = childScopeOf(v, scope);
+          const child = isBoundary(v) || isSuspense(v)
+            ? createBoundaryChild(record, output, childScope)
+            : output && createNode(output, record, childScope);
+
+          if (child) record.children = [child];
+
+          // Children first, so effects run bottom-up
+          pendingEffects.push(instance);
+          return record;
+        }
+
+        // ---- THUNK ----
+        // Like components, thunks mount their output
+        // as their single child.
+        if (isThunk(v)) {
+          const output = renderThunk(v);
+          if (output) {
+            record.children = [createNode(output, record, scope)];
+          }
+          return record;
+        }
+
+        // ---- PORTAL ----
+        // Children are created like fragment children,
+        // but placed in the portal's own container,
+        // which hydration leaves alone.
+        if (isPortal(v)) {
+          const target = portalContainer(v) as Node;
+          const outer = hydration;
+          hydration = null;
+
+          try {
+            record.children = (v.children as readonly VNode[]).map(child =>
+              createNode(child, record, scope)
+            );
+          } finally {
+            hydration = outer;
+          }
+
+          attachPortal(record, target);
+          return record;
+        }
+
+        // ---- TEXT / FRAGMENT ----
+        // No wrapper element: text becomes a single host
+        // text node, element children are placed by the
+        // nearest host ancestor.
+        if (v.type === TextNode || v.type === Fragment) {
+          if (typeof v.children === 'string') {
+            record.text = createText(v.children);
+          } else if (Array.isArray(v.children)) {
+            record.children = v.children.map(child =>
+              createNode(child, record, scope)
+            );
+          }
+          return record;
+        }
+
+        // Create element, unless hydration adopts an existing one
+        const cursor = hydration;
+        const path = cursor ? childPath(cursor, v.type as string) : '';
+        const existing = adoptElement(v.type as string);
+        const node =
+          existing ?? host.createElement(v.type as string, namespaceOf(record));
+        record.node = node;
 
         // Track node creation
-        metrics.nodes.created++;
+        if (!existing) metrics.nodes.created++;
+
+        // Attributes of an adopted element that no prop sets
+        // are removed, differing ones are set again below
+        if (cursor && existing) {
+          cursor.host
+            .hydrateProps?.(existing, v.props)
+            .forEach(detail => reportMismatch(path, detail));
+        }
 
         // Apply props
         if (v.props) {
           for (const key in v.props) {
-            if (key !== 'hooks') {
+            if (key !== 'hooks' && key !== 'ref') {
               host.setProp(node, key, v.props[key]);
             }
           }
         }
 
-        // Handle children
-        if (typeof v.children === 'string') {
-          // Text child
-          const textNode = host.createText(v.children);
-          host.insert(node, textNode, 0);
-        } else if (Array.isArray(v.children)) {
-          // Element children
-          v.children.forEach((child, index) => {
-            const childNode = createNode(child, node);
-            host.insert(node, childNode, index);
-          });
-        }
+        // Children of an adopted element are hydrated as well,
+        // children of a created one are created
+        const outer = hydration;
+        hydration =
+          cursor && existing
+            ? {
+                host: cursor.host,
+                nodes: cursor.host.childNodes(existing),
+                index: 0,
+                placed: 0,
+                path
+              }
+            : null;
 
-        // Register node in identity map
-        nodeMap.set(v.__id, node);
+        try {
+          // Handle children
+          if (typeof v.children === 'string') {
+            // Text child
+            record.text = createText(v.children);
+            if (record.text) placeNode(node, record.text, 0);
+          } else if (Array.isArray(v.children)) {
+            // Element and text VNode children
+            // (fragments may span several host nodes)
+            let index = 0;
+            v.children.forEach(child => {
+              const childRecord = createNode(child, record, scope);
+              record.children.push(childRecord);
+
+              for (const childNode of hostNodesOf(childRecord)) {
+                placeNode(node, childNode, index++);
+              }
+            });
+          }
+
+          if (hydration) removeUnclaimed(hydration);
+        } finally {
+          hydration = outer;
+        }
 
         // Run create lifecycle hook
         v.props?.hooks?.create?.(v, node);
 
-        return node;
+        // Attach ref after the commit has inserted the node
+        if (v.props?.ref) {
+          pendingRefs.push({ ref: v.props.ref, node });
+        }
+
+        return record;
       }
 
       /**
-       * Apply a list of patches to the host.
+       * Create a subtree, undoing partial work when it throws.
+       *
+       * Records created before the error are forgotten and
+       * their components and portals are unmounted, so
+       * nothing of the failed subtree stays reachable.
        */
-      function commit(patches: Patch[]): void {
-        for (const patch of patches) {
-          // Record patch before processing
-          recordPatch(metrics, patch);
-
-          // Update patch counters
-          metrics.patches.total++;
-          metrics.patches.byType[patch.type]++;
-
-          switch (patch.type) {
-            case 'REPLACE': {
-              // Remove old root if it exists
-              if (rootNode) {
-                host.remove(rootNode);
-                metrics.nodes.removed++;
-                rootNode = null;
-                nodeMap.clear();
-              }
+      function createTracked(
+        vnode: VNode,
+        parent: MountedNode<Node> | null,
+        scope: ContextScope | null
+      ): MountedNode<Node> {
+        const outer = createdRecords;
+        const created: MountedNode<Node>[] = [];
+        createdRecords = created;
 
-              // Mount new root
-              if (patch.vnode !== null) {
-                const newNode = createNode(patch.vnode, container);
-                host.insert(container, newNode, 0);
-                rootNode = newNode;
-              }
-              break;
-            }
+        try {
+          return createNode(vnode, parent, scope);
+        } catch (error) {
+          discardRecords(created);
+          created.length = 0;
+          throw error;
+        } finally {
+          outer?.push(...created);
+          createdRecords = outer;
+        }
+      }
 
-            case 'UPDATE_TEXT': {
-              const v = patch.vnode as VNodeWithId;
-              const node = nodeMap.get(v.__id);
+      /**
+       * Drop records of a subtree that failed to be created.
+       */
+      function discardRecords(records: MountedNode<Node>[]): void {
+        const nodes = new Set<Node>();
 
-              // Update text content directly
-              if (node && typeof node.textContent === 'string') {
-                node.textContent = patch.value;
-              }
-              break;
-            }
+        for (const record of records) {
+          if (nodeMap.get(record.vnode.__id) === record) {
+            nodeMap.delete(record.vnode.__id);
+          }
 
-            case 'SET_PROP': {
-              const v = patch.vnode as VNodeWithId;
-              const node = nodeMap.get(v.__id);
+          const instance = isComponent(record.vnode)
+            ? getInstance(record.vnode)
+            : null;
+          if (instance) unmountInstance(instance);
 
-              if (node) {
-                host.setProp(node, patch.key, patch.value);
-              }
-              break;
-            }
+          if (record.target !== null) detachPortal(record);
+          if (record.node !== null) nodes.add(record.node);
+        }
 
-            case 'REMOVE_PROP': {
-              const v = patch.vnode as VNodeWithId;
-              const node = nodeMap.get(v.__id);
+        pendingEffects = pendingEffects.filter(instance => instance.mounted);
+        pendingRefs = pendingRefs.filter(({ node }) => !nodes.has(node));
+      }
 
-              if (node) {
-                host.removeProp(node, patch.key);
-              }
-              break;
-            }
+      /**
+       * Create the output of an error or Suspense boundary,
+       * falling back when the output throws what the boundary
+       * catches while being created.
+       */
+      function createBoundaryChild(
+        record: MountedNode<Node>,
+        output: VNode | null,
+        scope: ContextScope | null
+      ): MountedNode<Node> | null {
+        if (!output) return null;
 
-            case 'INSERT': {
-              const parent = patch.parent as VNodeWithId;
-              const parentNode = nodeMap.get(parent.__id);
-              if (!parentNode) break;
+        // Hydration of the fallback starts over at the same node,
+        // forgetting the mismatches of the failed output
+        const mark = hydration && {
+          index: hydration.index,
+          placed: hydration.placed,
+          mismatches: mismatches.length
+        };
 
-              const childNode = createNode(patch.vnode, parentNode);
-              host.insert(parentNode, childNode, patch.index);
-              break;
-            }
+        try {
+          return createTracked(output, record, scope);
+        } catch (error) {
+          if (!catches(record, error)) throw error;
 
-            case 'MOVE': {
-              const parent = patch.parent as VNodeWithId;
-              const child = patch.vnode as VNodeWithId;
+          if (hydration && mark) {
+            hydration.index = mark.index;
+            hydration.placed = mark.placed;
+            mismatches.length = mark.mismatches;
+          }
 
-              const parentNode = nodeMap.get(parent.__id);
-              const childNode = nodeMap.get(child.__id);
-              if (!parentNode || !childNode) break;
+          const fallback = renderFallback(record, error);
+          return fallback && createTracked(fallback, record, scope);
+        }
+      }
 
-              // DOM-safe move:
-              // remove first, then insert at new index
-              host.remove(childNode);
-              host.insert(parentNode, childNode, patch.to);
+      /**
+       * Whether a record is a boundary that catches a thrown value:
+       * Suspense boundaries catch suspensions, error boundaries
+       * not yet showing their fallback catch everything else.
+       */
+      function catches(record: MountedNode<Node>, error: unknown): boolean {
+        const v = record.vnode;
 
-              break;
-            }
+        if (isSuspension(error)) return isSuspense(v);
+        return isBoundary(v) && !hasCaught(v);
+      }
 
-            case 'REMOVE': {
-              const v = patch.vnode as VNodeWithId;
-              const node = nodeMap.get(v.__id);
-              if (!node) break;
-
-              const removeHook = v.props?.hooks?.remove;
-
-              // Final removal logic
-              const finalizeRemoval = () => {
-                host.remove(node);
-                metrics.nodes.removed++;
-                nodeMap.delete(v.__id);
-              };
-
-              // If hook exists, let it control timing
-              if (removeHook) {
-                removeHook(v, node, finalizeRemoval);
-              } else {
-                finalizeRemoval();
-              }
+      /**
+       * Render the fallback of a boundary for a caught value.
+       */
+      function renderFallback(
+        record: MountedNode<Node>,
+        error: unknown
+      ): VNode | null {
+        return isSuspension(error)
+          ? catchSuspension(record.vnode, error)
+          : catchError(record.vnode, error);
+      }
 
-              break;
-            }
+      /**
+       * Route an error to the nearest boundary at or above
+       * a record that catches it (see `catches()`).
+       *
+       * Without such a boundary the error is left to the root.
+       */
+      function handleError(
+        record: MountedNode<Node> | null,
+        error: unknown
+      ): void {
+        for (let current = record; current; current = current.parent) {
+          // Only the first error of a boundary is kept
+          if (failedBoundaries.has(current)) return;
 
-            case 'UPDATE': {
-              const oldV = patch.oldVNode as VNodeWithId;
-              const newV = patch.newVNode as VNodeWithId;
-              const node = nodeMap.get(oldV.__id);
+          if (catches(current, error)) {
+            failedBoundaries.set(current, error);
+            return;
+          }
+        }
 
-              if (node) {
-                // Update identity mapping
-                nodeMap.delete(oldV.__id);
-                nodeMap.set(newV.__id, node);
+        uncaughtErrors.push(error);
+      }
 
-                // Run update hook
-                newV.props?.hooks?.update?.(
-                  patch.oldVNode,
-                  patch.newVNode,
-                  node
-                );
-              }
-              break;
+      /**
+       * Whether a record lies inside a boundary that failed
+       * during the current commit.
+       */
+      function insideFailedBoundary(record: MountedNode<Node> | null): boolean {
+        for (let current = record; current; current = current.parent) {
+          if (failedBoundaries.has(current)) return true;
+        }
+        return false;
+      }
+
+      /**
+       * Replace the content of failed boundaries by their fallback.
+       *
+       * The failed subtree is torn down as a whole, since its
+       * patches may have been applied only partly.
+       */
+      function recoverBoundaries(): void {
+        const failed = [...failedBoundaries];
+        failedBoundaries.clear();
+
+        for (const [record, error] of failed) {
+          // Already removed by the recovery of an outer boundary
+          if (nodeMap.get(record.vnode.__id) !== record) continue;
+
+          for (const child of record.children) {
+            unmountSubtree(child);
+            removeHostNodes(child);
+            forgetNode(child);
+          }
+          record.children = [];
+
+          try {
+            const fallback = renderFallback(record, error);
+            if (fallback) {
+              const child = createTracked(fallback, record, scopeOf(record));
+              insertChild(record, child, 0);
             }
+          } catch (fallbackError) {
+            handleError(record.parent, fallbackError);
           }
         }
       }
 
       /**
-       * Update the rendered tree.
+       * Finish a commit: render fallbacks of failed boundaries,
+       * then attach refs and run effects, until no boundary
+       * fails anymore.
+       */
+      function settle(): void {
+        do {
+          recoverBoundaries();
+          flushRefs();
+          flushEffects();
+        } while (failedBoundaries.size > 0);
+      }
+
+      /**
+       * Report errors no boundary caught to the root.
+       */
+      function reportErrors(): void {
+        const errors = uncaughtErrors;
+        uncaughtErrors = [];
+        if (errors.length === 0) return;
+
+        const reported = errors.map(error =>
+          isSuspension(error) ? unhandledSuspension() : error
+        );
+
+        if (!options.onError) throw reported[0];
+        reported.forEach(options.onError);
+      }
+
+      /**
+       * Collect the context providers above a mounted record,
+       * nearest first, by walking up the mounted tree.
+       */
+      function scopeOf(record: MountedNode<Node> | null): ContextScope | null {
+        if (!record) return null;
+        return childScopeOf(record.vnode, scopeOf(record.parent));
+      }
+
+      /**
+       * Create a host text node, or adopt an existing one
+       * while hydrating.
        *
-       * Runs diff, applies patches,
-       * and records performance metrics.
+       * Empty text has no host node, which keeps transitions
+       * between text and element children symmetric.
        */
-      function update(nextVNode: VNode): void {
-        const start = performance.now();
+      function createText(text: string): Node | null {
+        if (text === '') return null;
+        return adoptText(text) ?? host.createText(text);
+      }
 
-        const patches = diff(currentVNode, nextVNode);
-        commit(patches);
-        currentVNode = nextVNode;
+      /**
+       * Insert a host node into its parent, unless hydration
+       * adopted it and it is in place already.
+       */
+      function placeNode(parent: Node, node: Node, index: number): void {
+        if (!adoptedNodes.has(node)) host.insert(parent, node, index);
+      }
 
-        const duration = performance.now() - start;
+      // ---- HYDRATION ----
 
-        recordUpdate(metrics, duration, patches.length);
-        updateSlowestPatchType(metrics);
+      /**
+       * Adopt the next existing host node for an element.
+       *
+       * Returns null when the element has to be created:
+       * when not hydrating, or when the existing node is
+       * missing or does not match. A node that does not match
+       * stays for the next siblings; unclaimed nodes are
+       * removed at the end.
+       */
+      function adoptElement(tag: string): Node | null {
+        const cursor = hydration;
+        if (!cursor) return null;
+
+        const found = nextExisting(cursor);
+        const name = found && cursor.host.nodeName(found);
+
+        if (name !== tag.toLowerCase()) {
+          reportMismatch(
+            childPath(cursor, tag),
+            `expected <${tag}>, found ${describe(name)}`
+          );
+          cursor.placed++;
+          return null;
+        }
+
+        return adopt(cursor);
       }
 
       /**
-       * Remove the entire rendered tree.
+       * Adopt the next existing host node for some text.
+       *
+       * Text that differs is patched. When the existing node
+       * is no text node, the text is created instead.
        */
-      function unmount(): void {
-        if (rootNode) {
-          host.remove(rootNode);
-          metrics.nodes.removed++;
-          rootNode = null;
-          currentVNode = null;
-          nodeMap.clear();
+      function adoptText(text: string): Node | null {
+        const cursor = hydration;
+        if (!cursor) return null;
+
+        const found = nextExisting(cursor);
+        const name = found && cursor.host.nodeName(found);
+
+        if (!found || name !== '#text') {
+          reportMismatch(
+            childPath(cursor, '#text'),
+            `expected text, found ${describe(name)}`
+          );
+          cursor.placed++;
+          return null;
+        }
+
+        if (found.textContent !== text) {
+          reportMismatch(
+            childPath(cursor, '#text'),
+            `expected ${JSON.stringify(text)}, found ${JSON.stringify(found.textContent)}`
+          );
+          found.textContent = text;
         }
+
+        return adopt(cursor);
       }
 
-      // Initial mount
-      update(vnode);
+      /**
+       * Claim the existing host node under the cursor.
+       */
+      function adopt(cursor: HydrationCursor<Node>): Node {
+        const node = cursor.nodes[cursor.index++]!;
+        cursor.placed++;
+        adoptedNodes.add(node);
+        return node;
+      }
 
-      return {
-        update,
-        unmount,
-        metrics
-      };
-    }
+      /**
+       * Find the next existing host node that could be adopted.
+       *
+       * Nodes the renderer never creates, such as comments,
+       * are removed on the way, so host indexes stay in sync
+       * with the mounted tree.
+       */
+      function nextExisting(cursor: HydrationCursor<Node>): Node | null {
+        while (cursor.index < cursor.nodes.length) {
+          if (cursor.host.nodeName(cursor.nodes[cursor.index]!) !== null) {
+            return cursor.nodes[cursor.index]!;
+          }
+          removeExisting(cursor);
+        }
+        return null;
+      }
+
+      /**
+       * Remove the existing host node under the cursor.
+       */
+      function removeExisting(cursor: HydrationCursor<Node>): void {
+        const [node] = cursor.nodes.splice(cursor.index, 1);
+        host.remove(node!);
+      }
+
+      /**
+       * Remove the existing host nodes no VNode claimed.
+       */
+      function removeUnclaimed(cursor: HydrationCursor<Node>): void {
+        for (let found = nextExisting(cursor); found; found = nextExisting(cursor)) {
+          const name = cursor.host.nodeName(found) ?? '';
+          reportMismatch(childPath(cursor, name), `unexpected ${describe(name)}`);
+          removeExisting(cursor);
+        }
+      }
+
+      /**
+       * Path of the next host node of a cursor, such as
+       * "div[0] > ul[1] > li[2]", with host child indexes.
+       */
+      function childPath(cursor: HydrationCursor<Node>, name: string): string {
+        const segment = `${name}[${cursor.placed}]`;
+        return cursor.path ? `${cursor.path} > ${segment}` : segment;
+      }
+
+      /**
+       * Record a node that does not match its VNode,
+       * by its path (see childPath).
+       */
+      function reportMismatch(path: string, detail: string): void {
+        mismatches.push(`Hydration mismatch at ${path}: ${detail}.`);
+      }
+
+      /**
+       * Describe an existing host node by its name.
+       */
+      function describe(name: string | null): string {
+        if (name === null) return 'nothing';
+        return name === '#text' ? 'text' : `<${name}>`;
+      }
+
+      /**
+       * Set the text of a record, creating or removing
+       * its host text node as needed.
+       */
+      function setText(record: MountedNode<Node>, value: string): void {
+        const textNode = record.text;
+
+        // Empty text: drop the text node
+        if (value === '') {
+          if (textNode) {
+            host.remove(textNode);
+            record.text = null;
+          }
+          return;
+        }
+
+        // Update text content directly
+        if (textNode) {
+          if (typeof textNode.textContent === 'string') {
+            textNode.textContent = value;
+          }
+          return;
+        }
+
+        // No text yet: the text node leads the record's range
+        const newText = host.createText(value);
+        record.text = newText;
+
+        if (record.node) {
+          host.insert(record.node, newText, 0);
+        } else {
+          host.insert(hostParentOf(record), newText, hostIndexOf(record));
+        }
+      }
+
+      /**
+       * Collect the host nodes of a record, in order.
+       *
+       * Portals contribute nothing to their parent.
+       */
+      function hostNodesOf(record: MountedNode<Node>): Node[] {
+        if (record.node !== null) return [record.node];
+        if (record.text !== null) return [record.text];
+        if (record.target !== null) return [];
+
+        return contentNodesOf(record);
+      }
+
+      /**
+       * Collect the host nodes of a record's children, in order.
+       */
+      function contentNodesOf(record: MountedNode<Node>): Node[] {
+        const nodes: Node[] = [];
+        for (const child of record.children) {
+          nodes.push(...hostNodesOf(child));
+        }
+        return nodes;
+      }
+
+      /**
+       * Find the host node that contains a record's host nodes.
+       *
+       * Fragments are skipped; the root lives in the container
+       * and portal children in the portal's target.
+       */
+      function hostParentOf(record: MountedNode<Node>): Node {
+        let parent = record.parent;
+        while (parent && parent.node === null && parent.target === null) {
+          parent = parent.parent;
+        }
+        if (!parent) return container;
+        return parent.node ?? parent.target!;
+      }
+
+      /**
+       * Find the namespace a record's host nodes are created in:
+       * the one of the children of its host parent.
+       *
+       * Portals are read from their VNode, since their
+       * children are created before the portal is attached.
+       */
+      function namespaceOf(record: MountedNode<Node>): string | null {
+        if (!host.childNamespace) return null;
+
+        let parent = record.parent;
+        while (parent && parent.node === null && !isPortal(parent.vnode)) {
+          parent = parent.parent;
+        }
+
+        if (!parent) return host.childNamespace(container);
+        return host.childNamespace(parent.node ?? (portalContainer(parent.vnode) as Node));
+      }
+
+      /**
+       * Compute the host index of a record's first host node
+       * within its host parent.
+       *
+       * Records pending removal still occupy host positions,
+       * so they are counted as well.
+       */
+      function hostIndexOf(record: MountedNode<Node>): number {
+        const parent = record.parent;
+        if (!parent) return 0;
+
+        // Fragments start where their own range starts,
+        // portal children where the portal's content starts
+        let index = 0;
+        if (parent.target !== null) {
+          index = portalIndexOf(parent);
+        } else if (parent.node === null) {
+          index = hostIndexOf(parent);
+        }
+
+        for (const sibling of parent.children) {
+          if (sibling === record) break;
+          index += hostNodesOf(sibling).length;
+        }
+
+        return index;
+      }
+
+      /**
+       * Compute the host index of a portal's content within
+       * its target: after the content of earlier portals.
+       */
+      function portalIndexOf(record: MountedNode<Node>): number {
+        let index = 0;
+        for (const portal of portalTargets.get(record.target!) ?? []) {
+          if (portal === record) break;
+          index += contentNodesOf(portal).length;
+        }
+        return index;
+      }
+
+      /**
+       * Register a portal with a target container and
+       * insert its content there.
+       */
+      function attachPortal(record: MountedNode<Node>, target: Node): void {
+        record.target = target;
+
+        const portals = portalTargets.get(target) ?? [];
+        portals.push(record);
+        portalTargets.set(target, portals);
+
+        let index = portalIndexOf(record);
+        for (const node of contentNodesOf(record)) {
+          host.insert(target, node, index++);
+        }
+      }
+
+      /**
+       * Remove a portal's content from its target container
+       * and unregister the portal.
+       */
+      function detachPortal(record: MountedNode<Node>): void {
+        const target = record.target!;
+
+        for (const node of contentNodesOf(record)) {
+          host.remove(node);
+        }
+
+        const portals = portalTargets.get(target) ?? [];
+        const index = portals.indexOf(record);
+        if (index !== -1) portals.splice(index, 1);
+        if (portals.length === 0) portalTargets.delete(target);
+
+        record.target = null;
+      }
+
+      /**
+       * Attach a record to a parent at a VNode child index
+       * and insert its host nodes at the matching host index.
+       *
+       * The index counts only live children, because the diff
+       * knows nothing about nodes that are being removed.
+       */
+      function insertChild(
+        parent: MountedNode<Node>,
+        record: MountedNode<Node>,
+        index: number
+      ): void {
+        let position = 0;
+        let live = 0;
+        while (position < parent.children.length) {
+          if (!parent.children[position]!.removing) {
+            if (live === index) break;
+            live++;
+          }
+          position++;
+        }
+
+        record.parent = parent;
+        parent.children.splice(position, 0, record);
+
+        const parentNode = hostParentOf(record);
+        let hostIndex = hostIndexOf(record);
+        for (const node of hostNodesOf(record)) {
+          host.insert(parentNode, node, hostIndex++);
+        }
+      }
+
+      /**
+       * Detach a record from its parent's child list.
+       */
+      function detachChild(record: MountedNode<Node>): void {
+        const siblings = record.parent?.children;
+        if (!siblings) return;
+
+        const index = siblings.indexOf(record);
+        if (index !== -1) siblings.splice(index, 1);
+      }
+
+      /**
+       * Drop a record and all of its descendants
+       * from the identity map.
+       */
+      function forgetNode(record: MountedNode<Node>): void {
+        nodeMap.delete(record.vnode.__id);
+        record.children.forEach(forgetNode);
+      }
+
+      /**
+       * Unmount a subtree that is leaving the tree:
+       * - Run component effect cleanups
+       * - Reset refs to null
+       */
+      function unmountSubtree(record: MountedNode<Node>): void {
+        record.children.forEach(unmountSubtree);
+
+        const v = record.vnode;
+
+        const instance = isComponent(v) ? getInstance(v) : null;
+        if (instance) {
+          try {
+            unmountInstance(instance);
+          } catch (error) {
+            handleError(record.parent, error);
+          }
+        }
+
+        if (isElement(v) && v.props?.ref) {
+          setRef(v.props.ref, null);
+        }
+      }
+
+      /**
+       * Attach refs of nodes inserted by the last commit.
+       */
+      function flushRefs(): void {
+        const refs = pendingRefs;
+        pendingRefs = [];
+        refs.forEach(({ ref, node }) => setRef(ref, node));
+      }
+
+      /**
+       * Run effects of components rendered by the last commit.
+       */
+      function flushEffects(): void {
+        const instances = pendingEffects;
+        pendingEffects = [];
+
+        for (const instance of instances) {
+          try {
+            runEffects(instance);
+          } catch (error) {
+            handleError(recordOf(instance), error);
+          }
+        }
+      }
+
+      /**
+       * Find the mounted record a patch addresses.
+       *
+       * Reused thunks get no patch of their own, so they
+       * are found through the thunk that rendered.
+       */
+      function findRecord(vnode: VNode): MountedNode<Node> | undefined {
+        return nodeMap.get((renderedThunkOf(vnode) as VNodeWithId).__id);
+      }
+
+      /**
+       * Find the mounted record of a component instance.
+       */
+      function recordOf(instance: ComponentInstance): MountedNode<Node> | null {
+        return nodeMap.get((instance.vnode as VNodeWithId).__id) ?? null;
+      }
+
+      /**
+       * Queue a component that changed its own state.
+       *
+       * Updates are batched in a microtask, so several state
+       * changes in one tick cause a single re-render.
+       */
+      function scheduleComponent(instance: ComponentInstance): void {
+        dirtyComponents.add(instance);
+        if (componentFlushScheduled) return;
+
+        // State changes coalesce with scheduled
+        // updates, on the root's scheduler
+        componentFlushScheduled = true;
+        updateScheduler.schedule(() => {
+          flushComponents();
+          reportErrors();
+        });
+      }
+
+      /**
+       * Re-render all dirty components, parents first.
+       *
+       * A component re-rendered by its parent is no longer
+       * dirty, so it is skipped.
+       */
+      function flushComponents(): void {
+        componentFlushScheduled = false;
+
+        // The update in progress rendered against the committed
+        // outputs; dirty components wait until it commits
+        if (work) return;
+
+        // Renders can mark more components dirty, such as
+        // consumers of a provider whose value changed: they
+        // render in the same flush, so the host never shows
+        // two values of one provider at once
+        while (dirtyComponents.size > 0) {
+          const instances = [...dirtyComponents].sort(
+            (a, b) => depthOf(a) - depthOf(b)
+          );
+          dirtyComponents.clear();
+
+          for (const instance of instances) {
+            if (instance.dirty && instance.mounted) {
+              updateComponent(instance);
+            }
+          }
+        }
+      }
+
+      /**
+       * Depth of a component's record in the mounted tree.
+       */
+      function depthOf(instance: ComponentInstance): number {
+        let record = recordOf(instance);
+        let depth = 0;
+        while (record?.parent) {
+          record = record.parent;
+          depth++;
+        }
+        return depth;
+      }
+
+      /**
+       * Remove all host nodes of a record from the host,
+       * including the content of portals inside it, which
+       * lives outside the record's own host nodes.
+       */
+      function removeHostNodes(record: MountedNode<Node>): void {
+        for (const node of hostNodesOf(record)) {
+          host.remove(node);
+          metrics.nodes.removed++;
+        }
+        removePortals(record);
+      }
+
+      /**
+       * Detach every portal in a subtree, innermost first.
+       */
+      function removePortals(record: MountedNode<Node>): void {
+        record.children.forEach(removePortals);
+        if (record.target === null) return;
+
+        metrics.nodes.removed += contentNodesOf(record).length;
+        detachPortal(record);
+      }
+
+      /**
+       * Apply a list of patches to the host.
+       *
+       * An error thrown by one patch never stops the commit:
+       * it goes to the nearest error boundary, whose remaining
+       * patches are skipped, or to the root once the commit
+       * is complete. The mounted tree thus stays in sync with
+       * the VNode tree either way.
+       */
+      function commit(patches: readonly Patch[]): void {
+        for (const patch of patches) {
+          const owner = ownerOf(patch);
+          if (insideFailedBoundary(owner)) continue;
+
+          try {
+            applyPatch(patch);
+          } catch (error) {
+            handleError(owner, error);
+          }
+        }
+      }
+
+      /**
+       * Find the record a patch works inside of:
+       * the parent for child list changes, otherwise the
+       * parent of the patched node.
+       */
+      function ownerOf(patch: Patch): MountedNode<Node> | null {
+        switch (patch.type) {
+          case 'REPLACE':
+            return null;
+
+          case 'INSERT':
+          case 'MOVE':
+          case 'REMOVE':
+            return findRecord(patch.parent) ?? null;
+
+          case 'UPDATE':
+            return findRecord(patch.oldVNode)?.parent ?? null;
+
+          default:
+            return findRecord(patch.vnode)?.parent ?? null;
+        }
+      }
+
+      /**
+       * Apply a single patch to the host.
+       */
+      function applyPatch(patch: Patch): void {
+        // Record patch before processing
+        recordPatch(metrics, patch);
+
+        // Update patch counters
+        metrics.patches.total++;
+        metrics.patches.byType[patch.type]++;
+
+        switch (patch.type) {
+          case 'REPLACE': {
+            // Remove old root if it exists
+            if (rootRecord) {
+              unmountSubtree(rootRecord);
+              removeHostNodes(rootRecord);
+              rootRecord = null;
+              nodeMap.clear();
+            }
+
+            // Mount new root
+            if (patch.vnode !== null) {
+              const record = createTracked(patch.vnode, null, null);
+              hostNodesOf(record).forEach((node, index) => {
+                host.insert(container, node, index);
+              });
+              rootRecord = record;
+            }
+            break;
+          }
+
+          case 'UPDATE_TEXT': {
+            const v = patch.vnode as VNodeWithId;
+            const record = nodeMap.get(v.__id);
+
+            if (record) {
+              setText(record, patch.value);
+            }
+            break;
+          }
+
+          case 'SET_PROP': {
+            const v = patch.vnode as VNodeWithId;
+            const node = nodeMap.get(v.__id)?.node;
+
+            if (node) {
+              host.setProp(node, patch.key, patch.value);
+            }
+            break;
+          }
+
+          case 'REMOVE_PROP': {
+            const v = patch.vnode as VNodeWithId;
+            const node = nodeMap.get(v.__id)?.node;
+
+            if (node) {
+              host.removeProp(node, patch.key);
+            }
+            break;
+          }
+
+          case 'INSERT': {
+            const parentRecord = findRecord(patch.parent);
+            if (!parentRecord) break;
+
+            const record = createTracked(
+              patch.vnode,
+              parentRecord,
+              scopeOf(parentRecord)
+            );
+            insertChild(parentRecord, record, patch.index);
+            break;
+          }
+
+          case 'MOVE': {
+            const parentRecord = findRecord(patch.parent);
+            const record = findRecord(patch.vnode);
+            if (!parentRecord || !record) break;
+
+            // DOM-safe move:
+            // remove first, then insert at new index.
+            // Fragments move their whole host node range.
+            for (const node of hostNodesOf(record)) {
+              host.remove(node);
+            }
+            detachChild(record);
+            insertChild(parentRecord, record, patch.to);
+
+            break;
+          }
+
+          case 'REMOVE': {
+            const v = patch.vnode as VNodeWithId;
+            const record = findRecord(v);
+            if (!record) break;
+
+            const removeHook = v.props?.hooks?.remove;
+
+            // Components stop updating and refs are cleared
+            // right away, even if a remove hook delays the
+            // host removal
+            unmountSubtree(record);
+
+            // Final removal logic
+            const finalizeRemoval = () => {
+              removeHostNodes(record);
+              detachChild(record);
+              forgetNode(record);
+            };
+
+            // If hook exists, let it control timing
+            if (removeHook && isElement(v)) {
+              record.removing = true;
+
+              try {
+                removeHook(v, record.node!, finalizeRemoval);
+              } catch (error) {
+                // A failing hook must not leave the node behind
+                if (nodeMap.get(v.__id) === record) finalizeRemoval();
+                throw error;
+              }
+            } else {
+              finalizeRemoval();
+            }
+
+            break;
+          }
+
+          case 'UPDATE': {
+            const oldV = patch.oldVNode as VNodeWithId;
+            const newV = patch.newVNode as VNodeWithId;
+            const record = findRecord(oldV);
+
+            if (record) {
+              // Update identity mapping
+              nodeMap.delete(record.vnode.__id);
+              nodeMap.set(newV.__id, record);
+              record.vnode = newV;
+
+              // Portal content follows a new container
+              if (isPortal(newV)) {
+                const target = portalContainer(newV) as Node;
+                if (target !== record.target) {
+                  detachPortal(record);
+                  attachPortal(record, target);
+                }
+              }
+
+              // The instance now renders for the new VNode
+              const instance = isComponent(newV) ? getInstance(newV) : null;
+              if (instance) pendingEffects.push(instance);
+
+              // Move the ref when it changed between renders
+              const oldRef = isElement(oldV) ? oldV.props?.ref : undefined;
+              const newRef = isElement(newV) ? newV.props?.ref : undefined;
+              if (oldRef !== newRef) {
+                if (oldRef) setRef(oldRef, null);
+                if (newRef) pendingRefs.push({ ref: newRef, node: record.node! });
+              }
+
+              // Run update hook
+              if (isElement(newV)) {
+                newV.props?.hooks?.update?.(
+                  patch.oldVNode,
+                  patch.newVNode,
+                  record.node!
+                );
+              }
+            }
+            break;
+          }
+        }
+      }
+
+      /**
+       * Update the rendered tree.
+       *
+       * Runs diff, applies patches,
+       * and records performance metrics.
+       * Concurrent roots only start the diff here.
+       */
+      function update(nextVNode: VNode | null): void {
+        assertDiffable('update');
+
+        // A newer tree replaces a scheduled one
+        if (scheduled) {
+          scheduled = null;
+          metrics.scheduling.coalesced++;
+        }
+
+        if (concurrent) {
+          startWork(nextVNode);
+          return;
+        }
+
+        const start = performance.now();
+
+        // A render error no boundary caught leaves the
+        // mounted tree as it was, undoing the renders
+        // that did happen
+        const journal: Journal = [];
+        let patches: Patch[];
+        try {
+          patches = withJournal(journal, () => diff(currentVNode, nextVNode));
+        } catch (error) {
+          rollback(journal);
+          uncaughtErrors.push(error);
+          reportErrors();
+          return;
+        }
+
+        finishUpdate(nextVNode, patches, start);
+      }
+
+      /**
+       * Render the first tree over the host nodes already
+       * in the container, adopting them instead of creating
+       * new ones.
+       *
+       * Listeners, refs and create hooks are attached as on
+       * a normal mount. Nodes and attributes that do not match
+       * the tree are patched, replaced or removed, with a
+       * warning in dev builds.
+       * Hydration is synchronous, even on concurrent roots.
+       */
+      function hydrateTree(nextVNode: VNode | null): void {
+        if (!canHydrate(host)) {
+          throw new Error('hydrate: the host cannot adopt existing nodes');
+        }
+
+        const start = performance.now();
+        const cursor: HydrationCursor<Node> = {
+          host,
+          nodes: host.childNodes(container),
+          index: 0,
+          placed: 0,
+          path: ''
+        };
+        hydration = cursor;
+
+        try {
+          if (nextVNode !== null) {
+            const record = createTracked(nextVNode, null, null);
+            hostNodesOf(record).forEach((node, index) => {
+              placeNode(container, node, index);
+            });
+            rootRecord = record;
+            currentVNode = nextVNode;
+          }
+
+          removeUnclaimed(cursor);
+        } catch (error) {
+          // As on mount, a render error no boundary caught
+          // leaves nothing mounted
+          uncaughtErrors.push(error);
+        } finally {
+          hydration = null;
+          adoptedNodes.clear();
+        }
+
+        mismatches.forEach(warn);
+        mismatches = [];
+
+        recordUpdate(metrics, performance.now() - start, 0);
+
+        if (dirtyComponents.size > 0) flushComponents();
+
+        settle();
+        reportErrors();
+      }
+
+      /**
+       * Update with the root's scheduler.
+       *
+       * Requests made before the flush collapse into a
+       * single update to the latest tree.
+       */
+      function scheduleUpdate(nextVNode: VNode | null): void {
+        assertDiffable('scheduleUpdate');
+
+        metrics.scheduling.requests++;
+        if (scheduled) metrics.scheduling.coalesced++;
+
+        scheduled = { vnode: nextVNode };
+        if (flushScheduled) return;
+
+        flushScheduled = true;
+        updateScheduler.schedule(() => {
+          flushScheduled = false;
+          flush();
+        });
+      }
+
+      /**
+       * Run the scheduled update, if any, right away,
+       * along with components whose state changed.
+       */
+      function flush(): void {
+        if (!scheduled) {
+          if (dirtyComponents.size > 0) {
+            flushComponents();
+            reportErrors();
+          }
+          return;
+        }
+
+        const { vnode: nextVNode } = scheduled;
+        scheduled = null;
+        metrics.scheduling.flushes++;
+
+        update(nextVNode);
+      }
+
+      /**
+       * Commit the patches of an update and record it.
+       *
+       * `start` is when the update's own work began.
+       */
+      function finishUpdate(
+        nextVNode: VNode | null,
+        patches: Patch[],
+        start: number
+      ): void {
+        commit(patches);
+        currentVNode = nextVNode;
+
+        const duration = performance.now() - start;
+
+        recordUpdate(metrics, duration, patches.length);
+        updateSlowestPatchType(metrics);
+
+        // Context consumers the diff could not reach
+        // catch up before the update returns
+        if (dirtyComponents.size > 0) flushComponents();
+
+        settle();
+        reportErrors();
+      }
+
+      /**
+       * Start diffing an update in slices, preempting
+       * the update in progress.
+       */
+      function startWork(nextVNode: VNode | null): void {
+        cancelWork();
+
+        work = {
+          vnode: nextVNode,
+          task: createDiffTask(currentVNode, nextVNode),
+          journal: [],
+          slices: 0,
+          duration: 0
+        };
+
+        if (!sliceScheduled) {
+          sliceScheduled = true;
+          scheduler.schedule(runSlice);
+        }
+      }
+
+      /**
+       * Throw away the update in progress, undoing
+       * the renders it did.
+       */
+      function cancelWork(): void {
+        if (!work) return;
+
+        rollback(work.journal);
+        recordSlices(metrics, work.slices, true);
+        work = null;
+      }
+
+      /**
+       * Diff until the budget is used up, then either
+       * schedule the next slice or commit.
+       */
+      function runSlice(): void {
+        sliceScheduled = false;
+
+        const current = work;
+        if (!current) return;
+
+        const start = performance.now();
+        const deadline = now() + budget;
+        current.slices++;
+
+        // At least one step per slice, so work always advances
+        let step: IteratorResult<void, Patch[]>;
+        try {
+          step = withJournal(current.journal, () => {
+            let next = current.task.next();
+            while (!next.done && now() < deadline) {
+              next = current.task.next();
+            }
+            return next;
+          });
+        } catch (error) {
+          // Like a synchronous update, an uncaught render
+          // error leaves the mounted tree as it was
+          rollback(current.journal);
+          work = null;
+          uncaughtErrors.push(error);
+          reportErrors();
+          return;
+        }
+
+        current.duration += performance.now() - start;
+
+        if (!step.done) {
+          sliceScheduled = true;
+          scheduler.schedule(runSlice);
+          return;
+        }
+
+        // The commit itself is never sliced
+        work = null;
+        recordSlices(metrics, current.slices, false);
+        finishUpdate(
+          current.vnode,
+          step.value,
+          performance.now() - current.duration
+        );
+      }
+
+      /**
+       * Apply patches that were diffed elsewhere.
+       *
+       * The patches must have been diffed against the tree
+       * this root shows. The root cannot tell which VNode tree
+       * that is afterwards, so until `unmount()` it only takes
+       * more patches: `update()` and `scheduleUpdate()` throw.
+       */
+      function apply(patches: readonly Patch[]): void {
+        // Patches replace a tree that was scheduled to render
+        scheduled = null;
+        cancelWork();
+
+        const start = performance.now();
+
+        commit(patches);
+        currentVNode = null;
+        applied = true;
+
+        const duration = performance.now() - start;
+
+        recordUpdate(metrics, duration, patches.length);
+        updateSlowestPatchType(metrics);
+
+        settle();
+        reportErrors();
+      }
+
+      /**
+       * Throw when the root no longer knows its VNode tree.
+       */
+      function assertDiffable(method: string): void {
+        if (!applied) return;
+
+        throw new Error(
+          `root.${method}: this root shows patches from apply(), ` +
+            'so it has no VNode tree to diff against; ' +
+            'unmount() it first or keep applying patches'
+        );
+      }
+
+      /**
+       * Re-render a single component after its state changed.
+       *
+       * Only the component's own subtree is diffed;
+       * the rest of the tree is left untouched.
+       */
+      function updateComponent(instance: ComponentInstance): void {
+        const start = performance.now();
+
+        // Render errors go to the boundaries above
+        // the component; its subtree stays as it was
+        const journal: Journal = [];
+        let patches: Patch[];
+        try {
+          patches = withJournal(journal, () => diffComponent(instance.vnode));
+        } catch (error) {
+          rollback(journal);
+          handleError(recordOf(instance)?.parent ?? null, error);
+          settle();
+          return;
+        }
+
+        commit(patches);
+        pendingEffects.push(instance);
+
+        const duration = performance.now() - start;
+
+        recordUpdate(metrics, duration, patches.length);
+        updateSlowestPatchType(metrics);
+
+        settle();
+      }
+
+      /**
+       * Remove the entire rendered tree.
+       */
+      function unmount(): void {
+        scheduled = null;
+        cancelWork();
+
+        if (rootRecord) {
+          unmountSubtree(rootRecord);
+          removeHostNodes(rootRecord);
+          rootRecord = null;
+          currentVNode = null;
+          nodeMap.clear();
+        }
+        applied = false;
+
+        // Nothing is left to render a fallback into
+        failedBoundaries.clear();
+        reportErrors();
+      }
+
+      // Initial mount
+      if (hydrating) {
+        hydrateTree(vnode);
+      } else {
+        update(vnode);
+      }
+
+      return {
+        update,
+        scheduleUpdate,
+        flush,
+        apply,
+        unmount,
+        metrics
+      };
+    };
+
+  return {
+    mount: rootFactory(false),
+    hydrate: rootFactory(true)
   };
 }
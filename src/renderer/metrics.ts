@@ -10,6 +10,17 @@ export interface PatchHistoryEntry {
   vnodeId?: number;
 }
 
+/**
+ * How a time-sliced update ran.
+ *
+ * `preempted` updates were interrupted by a newer
+ * update and never committed.
+ */
+export interface SliceRecord {
+  slices: number;
+  preempted: boolean;
+}
+
 /**
  * Central metrics object for the renderer.
  *
@@ -58,6 +69,21 @@ export interface RendererMetrics {
     lastSecondUpdates: number;
   };
 
+  // Updates requested with scheduleUpdate(); `coalesced`
+  // counts requests replaced by a newer one before flushing
+  scheduling: {
+    requests: number;
+    flushes: number;
+    coalesced: number;
+  };
+
+  // Time slicing of concurrent roots, per update
+  slicing: {
+    last: SliceRecord | null;
+    preemptions: number;
+    history: SliceRecord[];
+  };
+
   // Timeline of recent patches
   patchHistory: PatchHistoryEntry[];
   maxPatchHistory: number;
@@ -116,6 +142,18 @@ export function createMetrics(): RendererMetrics {
       lastSecondUpdates: 0
     },
 
+    scheduling: {
+      requests: 0,
+      flushes: 0,
+      coalesced: 0
+    },
+
+    slicing: {
+      last: null,
+      preemptions: 0,
+      history: []
+    },
+
     // Initialize patch timeline
     patchHistory: [],
     maxPatchHistory: 50
@@ -348,6 +386,14 @@ export function resetMetrics(metrics: RendererMetrics): void {
   metrics.counters.fpsWindowUpdates = 0;
   metrics.counters.lastSecondUpdates = 0;
 
+  metrics.scheduling.requests = 0;
+  metrics.scheduling.flushes = 0;
+  metrics.scheduling.coalesced = 0;
+
+  metrics.slicing.last = null;
+  metrics.slicing.preemptions = 0;
+  metrics.slicing.history = [];
+
   metrics.patchHistory = [];
 }
 
@@ -376,3 +422,24 @@ export function formatMetrics(metrics: RendererMetrics): string {
   
   return output;
 }
+
+/**
+ * Record how a time-sliced update ran, whether it
+ * committed or was preempted.
+ */
+export function recordSlices(
+  metrics: RendererMetrics,
+  slices: number,
+  preempted: boolean
+): void {
+  const record: SliceRecord = { slices, preempted };
+  const { slicing } = metrics;
+
+  slicing.last = record;
+  if (preempted) slicing.preemptions++;
+
+  slicing.history.push(record);
+  if (slicing.history.length > metrics.history.maxHistorySize) {
+    slicing.history.shift();
+  }
+}
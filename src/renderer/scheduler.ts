@@ -0,0 +1,79 @@
+/**
+ * Schedulers decide when deferred renderer work runs.
+ *
+ * A scheduler only needs to run each task once, later.
+ * Injecting one lets tests step through work by hand.
+ */
+export interface Scheduler {
+  schedule(task: () => void): void;
+}
+
+/**
+ * Run tasks in a macrotask, so the host can paint
+ * and handle input in between.
+ */
+export const timeoutScheduler: Scheduler = {
+  schedule(task) {
+    setTimeout(task, 0);
+  }
+};
+
+/**
+ * Run tasks in a microtask: after the current code,
+ * before the host paints.
+ */
+export const microtaskScheduler: Scheduler = {
+  schedule(task) {
+    queueMicrotask(task);
+  }
+};
+
+/**
+ * Run tasks right before the host paints the next frame.
+ *
+ * Falls back to a macrotask where there are no frames
+ * (Node, workers without rAF).
+ */
+export const animationFrameScheduler: Scheduler = {
+  schedule(task) {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => task());
+    } else {
+      timeoutScheduler.schedule(task);
+    }
+  }
+};
+
+/**
+ * Scheduler that only runs tasks when told to.
+ *
+ * - run(): run every queued task, including tasks
+ *   queued while running
+ * - pending: number of queued tasks
+ */
+export interface ManualScheduler extends Scheduler {
+  run(): void;
+  readonly pending: number;
+}
+
+/**
+ * Create a scheduler for tests that step through
+ * scheduled work by hand.
+ */
+export function createManualScheduler(): ManualScheduler {
+  const tasks: Array<() => void> = [];
+
+  return {
+    schedule(task) {
+      tasks.push(task);
+    },
+
+    run() {
+      while (tasks.length > 0) tasks.shift()!();
+    },
+
+    get pending() {
+      return tasks.length;
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import type { Root } from '../renderer/createRenderer.js';
+import { decodePatches } from '../core/serialize.js';
+import type { HandlerResolver } from '../core/serialize.js';
+import { listen, serializeEvent } from './protocol.js';
+import type { EventMessage, MessagePortLike } from './protocol.js';
+
+/**
+ * Connection between a worker root and a main thread root.
+ */
+export interface WorkerConnection {
+  disconnect(): void;
+}
+
+/**
+ * Apply the patches of a worker root to a main thread root.
+ *
+ * The root only applies patches: it never runs a diff.
+ * Each handler id decodes to a small function that posts
+ * the event back to the worker, so handlers run there.
+ *
+ * `disconnect()` stops applying patches and leaves the
+ * container as it is.
+ */
+export function connectWorker(
+  port: MessagePortLike,
+  root: Root
+): WorkerConnection {
+  const handlers: HandlerResolver = {
+    resolve(id) {
+      return (event: Event) => {
+        const message: EventMessage = {
+          type: 'weave:event',
+          handler: id,
+          event: serializeEvent(event)
+        };
+        port.postMessage(message);
+      };
+    }
+  };
+
+  const stopListening = listen(port, 'weave:patches', message => {
+    root.apply(decodePatches(message.patches, handlers));
+  });
+
+  return {
+    disconnect: stopListening
+  };
+}
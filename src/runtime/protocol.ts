@@ -0,0 +1,157 @@
+import type { EncodedPatch, EncodedValue } from '../core/serialize.js';
+
+/**
+ * Worker protocol.
+ *
+ * A worker root builds and diffs VNode trees off the main
+ * thread and posts encoded patches; the main thread applies
+ * them and posts DOM events back to the handlers:
+ *
+ * worker  ── { type: 'weave:patches' } ──▶ main thread
+ * worker  ◀── { type: 'weave:event' } ─── main thread
+ *
+ * Messages are plain JSON, so any channel with structured
+ * cloning works: a Web Worker, `worker_threads` or a
+ * MessageChannel. Messages of other types are ignored,
+ * so the channel can be shared with application messages.
+ */
+
+// ---- MESSAGES ----
+
+/**
+ * Patches for the main thread, in commit order.
+ */
+export interface PatchesMessage {
+  readonly type: 'weave:patches';
+  readonly patches: readonly EncodedPatch[];
+}
+
+/**
+ * A DOM event for the handler registered under `handler`.
+ */
+export interface EventMessage {
+  readonly type: 'weave:event';
+  readonly handler: number;
+  readonly event: SerializedEvent;
+}
+
+export type WorkerMessage = PatchesMessage | EventMessage;
+
+/**
+ * JSON-safe copy of a DOM event.
+ *
+ * Holds the event's primitive fields (`type`, `key`,
+ * `clientX`, ...) and the `value` / `checked` state of
+ * its target. Methods such as `preventDefault()` cannot
+ * be forwarded: the event has been dispatched by the time
+ * the worker sees it.
+ */
+export type SerializedEvent = {
+  readonly type: string;
+  readonly target: { readonly [key: string]: EncodedValue };
+  readonly [key: string]: EncodedValue;
+};
+
+// ---- PORTS ----
+
+/**
+ * The part of `MessagePort` / `Worker` the protocol uses.
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: MessageListener): void;
+  removeEventListener(type: 'message', listener: MessageListener): void;
+  start?(): void;
+}
+
+type MessageListener = (event: { readonly data: unknown }) => void;
+
+/**
+ * Listen for protocol messages of one type.
+ *
+ * Returns a function that stops listening.
+ */
+export function listen<T extends WorkerMessage['type']>(
+  port: MessagePortLike,
+  type: T,
+  handler: (message: Extract<WorkerMessage, { type: T }>) => void
+): () => void {
+  const listener: MessageListener = event => {
+    const message = event.data as { type?: unknown } | null;
+    if (message?.type === type) {
+      handler(message as Extract<WorkerMessage, { type: T }>);
+    }
+  };
+
+  port.addEventListener('message', listener);
+
+  // MessagePorts only deliver to addEventListener() once started
+  port.start?.();
+
+  return () => port.removeEventListener('message', listener);
+}
+
+// ---- EVENTS ----
+
+/**
+ * Event fields worth forwarding, when present.
+ */
+const EVENT_FIELDS = [
+  'type',
+  'key',
+  'code',
+  'button',
+  'buttons',
+  'clientX',
+  'clientY',
+  'deltaX',
+  'deltaY',
+  'altKey',
+  'ctrlKey',
+  'metaKey',
+  'shiftKey',
+  'repeat',
+  'data',
+  'inputType'
+];
+
+/**
+ * Target fields worth forwarding, when present.
+ */
+const TARGET_FIELDS = ['value', 'checked'];
+
+/**
+ * Copy the primitive fields of an event (or its target).
+ */
+function pick(
+  source: object,
+  fields: readonly string[]
+): Record<string, EncodedValue> {
+  const copy: Record<string, EncodedValue> = {};
+
+  for (const field of fields) {
+    const value = (source as Record<string, unknown>)[field];
+    if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      copy[field] = value;
+    }
+  }
+
+  return copy;
+}
+
+/**
+ * Make a JSON-safe copy of a DOM event.
+ */
+export function serializeEvent(event: Event): SerializedEvent {
+  const target = event.target;
+
+  return {
+    ...pick(event, EVENT_FIELDS),
+    type: event.type,
+    target: target ? pick(target, TARGET_FIELDS) : {}
+  };
+}
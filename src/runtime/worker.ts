@@ -0,0 +1,158 @@
+import type { VNode } from '../core/types.js';
+import { diff } from '../core/diff.js';
+import { Fragment } from '../core/fragment.js';
+import { TextNode } from '../core/text.js';
+import { createHandlerRegistry, encodePatches } from '../core/serialize.js';
+import type { Handler } from '../core/serialize.js';
+import { listen } from './protocol.js';
+import type { MessagePortLike, PatchesMessage } from './protocol.js';
+
+/**
+ * Root controller living in a worker.
+ *
+ * Provides:
+ * - update(): diff a new VNode tree and post the patches
+ * - unmount(): clear the main thread container
+ * - metrics: counters of posted work
+ */
+export interface WorkerRoot {
+  update(vnode: VNode): void;
+  unmount(): void;
+  metrics: WorkerRootMetrics;
+}
+
+export interface WorkerRootMetrics {
+  updates: number;
+  patches: number;
+  lastDiffTime: number;
+}
+
+/**
+ * Create a root that diffs in the current (worker) thread.
+ *
+ * Every update is diffed here and posted as a single
+ * `weave:patches` message. Handlers stay in the worker:
+ * patches carry handler ids, and `weave:event` messages
+ * from the main thread call them with a serialized event.
+ *
+ * Trees are limited to what patches can encode: elements,
+ * fragments and text (see core/serialize.ts). Components,
+ * thunks and portals are rejected before anything is
+ * diffed, so the root keeps its current tree.
+ */
+export function createWorkerRoot(port: MessagePortLike): WorkerRoot {
+  // Tree the main thread currently shows
+  let currentVNode: VNode | null = null;
+
+  const handlers = createHandlerRegistry();
+
+  const metrics: WorkerRootMetrics = {
+    updates: 0,
+    patches: 0,
+    lastDiffTime: 0
+  };
+
+  // Events for handlers that have been replaced
+  // in the meantime are dropped
+  const stopListening = listen(port, 'weave:event', message => {
+    const handler = handlers.resolve(message.handler);
+    if (handler) (handler as (event: unknown) => unknown)(message.event);
+  });
+
+  /**
+   * Diff against the current tree and post the patches.
+   */
+  function render(vnode: VNode | null): void {
+    // Throws on trees that cannot be encoded,
+    // before the current tree changes
+    const live = handlersOf(vnode);
+
+    const start = performance.now();
+
+    const patches = diff(currentVNode, vnode);
+    const encoded = encodePatches(patches, handlers);
+
+    metrics.lastDiffTime = performance.now() - start;
+    currentVNode = vnode;
+
+    // Handlers of replaced props and removed nodes
+    // can no longer be called
+    handlers.retain(live);
+
+    if (encoded.length === 0) return;
+
+    metrics.updates++;
+    metrics.patches += encoded.length;
+
+    const message: PatchesMessage = {
+      type: 'weave:patches',
+      patches: encoded
+    };
+    port.postMessage(message);
+  }
+
+  return {
+    update: render,
+
+    unmount() {
+      render(null);
+      stopListening();
+    },
+
+    metrics
+  };
+}
+
+/**
+ * Collect the handlers of a whole tree, the same ones
+ * `encodePatches` registers.
+ *
+ * Throws on VNodes that have no encoded form.
+ */
+function handlersOf(
+  vnode: VNode | null,
+  found = new Set<Handler>()
+): Set<Handler> {
+  if (!vnode) return found;
+
+  if (
+    typeof vnode.type !== 'string' &&
+    vnode.type !== Fragment &&
+    vnode.type !== TextNode
+  ) {
+    throw new Error(
+      'createWorkerRoot: only elements, fragments and text can be ' +
+        'rendered in a worker, not components, thunks or portals'
+    );
+  }
+
+  if (vnode.props) {
+    for (const key in vnode.props) {
+      if (key === 'hooks' || key === 'ref') continue;
+      handlersIn(vnode.props[key], found);
+    }
+  }
+
+  if (Array.isArray(vnode.children)) {
+    for (const child of vnode.children) handlersOf(child, found);
+  }
+
+  return found;
+}
+
+/**
+ * Collect the functions in a prop value, including
+ * those nested in arrays and plain objects.
+ */
+function handlersIn(value: unknown, found: Set<Handler>): void {
+  if (typeof value === 'function') {
+    found.add(value as Handler);
+  } else if (Array.isArray(value)) {
+    for (const item of value) handlersIn(item, found);
+  } else if (value !== null && typeof value === 'object') {
+    const proto = Object.getPrototypeOf(value) as unknown;
+    if (proto !== Object.prototype && proto !== null) return;
+
+    for (const item of Object.values(value)) handlersIn(item, found);
+  }
+}
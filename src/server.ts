@@ -0,0 +1,18 @@
+/**
+ * Server entry point.
+ *
+ * Import from "weave/server" to render views to HTML
+ * without a DOM, e.g. in Node. Views are built with the
+ * same `h()`, components and hooks as in the browser:
+ *
+ * const page = renderToString(h(App, null));
+ * const stream = renderToStream(h(App, null));
+ *
+ * The browser adopts the markup with
+ * `hydrate(h(App, null), container)`.
+ */
+
+export { renderToString } from './platforms/server/renderToString.js';
+export { renderToStream } from './platforms/server/renderToStream.js';
+
+export type { StreamOptions } from './platforms/server/renderToStream.js';
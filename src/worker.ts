@@ -0,0 +1,27 @@
+/**
+ * Worker entry point.
+ *
+ * Import from "weave/worker" inside a Web Worker (or a
+ * `worker_threads` worker). It holds everything needed to
+ * build and diff trees there, and nothing that touches
+ * the DOM:
+ *
+ * const root = createWorkerRoot(self);
+ * root.update(h('p', null, 'Hello from a worker'));
+ *
+ * The main thread applies the patches with
+ * `connectWorker(worker, mount(null, container))`.
+ */
+
+export { h } from './core/h.js';
+export { html } from './core/html.js';
+export { Fragment } from './core/fragment.js';
+export { createWorkerRoot } from './runtime/worker.js';
+
+export type { VNode } from './core/types.js';
+export type { WorkerRoot, WorkerRootMetrics } from './runtime/worker.js';
+export type {
+  MessagePortLike,
+  SerializedEvent,
+  WorkerMessage
+} from './runtime/protocol.js';
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, useState, useEffect } from '../../src/index.js';
+import type { ComponentProps, VNode } from '../../src/index.js';
+
+const nextTick = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+describe('Weave – stateful components', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('re-renders only its own subtree when state changes', async () => {
+    let increment = () => {};
+    let parentRenders = 0;
+    let counterRenders = 0;
+
+    function Counter(): VNode {
+      counterRenders++;
+      const [count, setCount] = useState(0);
+      increment = () => setCount(c => c + 1);
+      return h('span', null, String(count));
+    }
+
+    function Parent(): VNode {
+      parentRenders++;
+      return h('div', null, [h(Counter, null)]);
+    }
+
+    mount(h(Parent, null), container);
+    const spanBefore = container.querySelector('span');
+
+    increment();
+    increment();
+    await nextTick();
+
+    expect(container.textContent).toBe('2');
+    expect(container.querySelector('span')).toBe(spanBefore);
+
+    // Two state changes are batched into one render
+    expect(counterRenders).toBe(2);
+    expect(parentRenders).toBe(1);
+  });
+
+  it('keeps state across parent updates', async () => {
+    let increment = () => {};
+
+    function Counter(props: ComponentProps<{ label: string }>): VNode {
+      const [count, setCount] = useState(0);
+      increment = () => setCount(count + 1);
+      return h('span', null, `${props.label}: ${count}`);
+    }
+
+    const root = mount(h('div', null, [h(Counter, { label: 'A' })]), container);
+
+    increment();
+    await nextTick();
+
+    root.update(h('div', null, [h(Counter, { label: 'B' })]));
+
+    expect(container.textContent).toBe('B: 1');
+  });
+
+  it('runs effects after commit and re-runs them when deps change', () => {
+    const calls: string[] = [];
+
+    function Title(props: ComponentProps<{ text: string }>): VNode {
+      useEffect(() => {
+        calls.push(`effect:${props.text}:${container.textContent}`);
+        return () => calls.push(`cleanup:${props.text}`);
+      }, [props.text]);
+
+      return h('h1', null, props.text);
+    }
+
+    const root = mount(h(Title, { text: 'A' }), container);
+    root.update(h(Title, { text: 'A' }));
+    root.update(h(Title, { text: 'B' }));
+
+    expect(calls).toEqual(['effect:A:A', 'cleanup:A', 'effect:B:B']);
+  });
+
+  it('cleans up effects when the component is removed', async () => {
+    const calls: string[] = [];
+    let setLater: (value: string) => void = () => {};
+
+    function Timer(): VNode {
+      const [value, setValue] = useState('idle');
+      setLater = setValue;
+
+      useEffect(() => {
+        calls.push('start');
+        return () => calls.push('stop');
+      }, []);
+
+      return h('span', null, value);
+    }
+
+    const root = mount(h('div', null, [h(Timer, { key: 't' })]), container);
+    root.update(h('div', null, []));
+
+    expect(calls).toEqual(['start', 'stop']);
+
+    // Updates after removal are ignored
+    setLater('late');
+    await nextTick();
+    expect(container.textContent).toBe('');
+
+    root.unmount();
+    expect(calls).toEqual(['start', 'stop']);
+  });
+
+  it('cleans up effects on unmount', () => {
+    const calls: string[] = [];
+
+    function Widget(): VNode {
+      useEffect(() => () => calls.push('cleanup'), []);
+      return h('div', null, 'widget');
+    }
+
+    const root = mount(h(Widget, null), container);
+    root.unmount();
+
+    expect(calls).toEqual(['cleanup']);
+  });
+});
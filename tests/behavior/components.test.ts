@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, Fragment } from '../../src/index.js';
+import type { ComponentProps, VNode } from '../../src/index.js';
+
+describe('Weave – function components', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  function Card(props: ComponentProps<{ title: string }>): VNode {
+    return h('section', { class: 'card' }, [
+      h('h2', null, props.title),
+      h('div', { class: 'body' }, props.children)
+    ]);
+  }
+
+  it('renders a component with props and children', () => {
+    mount(h(Card, { title: 'Stats' }, h('p', null, '42')), container);
+
+    expect(container.innerHTML).toBe(
+      '<section class="card"><h2>Stats</h2><div class="body"><p>42</p></div></section>'
+    );
+  });
+
+  it('re-renders the same component and reuses its host nodes', () => {
+    const root = mount(h(Card, { title: 'A' }), container);
+    const sectionBefore = container.firstElementChild;
+
+    root.update(h(Card, { title: 'B' }));
+
+    expect(container.firstElementChild).toBe(sectionBefore);
+    expect(container.textContent).toBe('B');
+  });
+
+  it('replaces the subtree when the component changes', () => {
+    function Other(props: ComponentProps<{ title: string }>): VNode {
+      return h('section', { class: 'card' }, props.title);
+    }
+
+    const root = mount(h('div', null, [h(Card, { title: 'A' })]), container);
+    const sectionBefore = container.querySelector('section');
+
+    root.update(h('div', null, [h(Other, { title: 'A' })]));
+
+    const sectionAfter = container.querySelector('section');
+    expect(sectionAfter).not.toBe(sectionBefore);
+    expect(sectionAfter!.textContent).toBe('A');
+  });
+
+  it('handles components that render nothing or several siblings', () => {
+    function Items(props: ComponentProps<{ count: number }>): VNode | null {
+      if (props.count === 0) return null;
+
+      return h(
+        Fragment,
+        null,
+        Array.from({ length: props.count }, (_, i) => h('li', null, String(i)))
+      );
+    }
+
+    const root = mount(h('ul', null, [h(Items, { count: 0 }), h('li', null, 'end')]), container);
+    const ul = container.firstElementChild as HTMLElement;
+    expect(ul.textContent).toBe('end');
+
+    root.update(h('ul', null, [h(Items, { count: 2 }), h('li', null, 'end')]));
+    expect(ul.textContent).toBe('01end');
+
+    root.update(h('ul', null, [h(Items, { count: 0 }), h('li', null, 'end')]));
+    expect(ul.textContent).toBe('end');
+  });
+
+  it('moves keyed components with their host nodes', () => {
+    function Row(props: ComponentProps<{ label: string }>): VNode {
+      return h('li', null, props.label);
+    }
+
+    const list = (labels: string[]) =>
+      h('ul', null, labels.map(label => h(Row, { key: label, label })));
+
+    const root = mount(list(['a', 'b', 'c']), container);
+    const ul = container.firstElementChild as HTMLElement;
+    const cBefore = ul.children[2];
+
+    root.update(list(['c', 'a', 'b']));
+
+    expect(ul.textContent).toBe('cab');
+    expect(ul.children[0]).toBe(cBefore);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, useEffect, useState } from '../../src/index.js';
+import type { ComponentProps, RootOptions, VNode } from '../../src/index.js';
+import { resetMetrics } from '../../src/renderer/metrics.js';
+
+describe('Weave – time-sliced updates', () => {
+  let container: HTMLElement;
+  let tasks: Array<() => void>;
+  let time: number;
+  let options: RootOptions;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    tasks = [];
+    time = 0;
+
+    // Every clock read advances time by 1ms, so a slice
+    // with a 10ms budget diffs about ten nodes
+    options = {
+      concurrent: {
+        scheduler: { schedule: task => tasks.push(task) },
+        budget: 10,
+        now: () => time++
+      }
+    };
+  });
+
+  const runSlice = () => tasks.shift()!();
+
+  const runAll = () => {
+    let slices = 0;
+    while (tasks.length > 0) {
+      runSlice();
+      slices++;
+    }
+    return slices;
+  };
+
+  const rows = (count: number, label: string) =>
+    h(
+      'ul',
+      null,
+      Array.from({ length: count }, (_, i) => h('li', { key: i }, `${label}${i}`))
+    );
+
+  it('diffs in slices and commits all patches at once', () => {
+    const root = mount(rows(100, 'a'), container, options);
+    expect(container.childNodes.length).toBe(0);
+
+    runAll();
+    expect(container.firstElementChild!.children.length).toBe(100);
+
+    root.update(rows(100, 'b'));
+
+    let slices = 0;
+    while (tasks.length > 0) {
+      // Nothing is committed before the last slice
+      expect(container.textContent!.startsWith('a0a1')).toBe(true);
+      runSlice();
+      slices++;
+    }
+
+    expect(slices).toBeGreaterThan(1);
+    expect(container.textContent!.startsWith('b0b1')).toBe(true);
+    expect(container.textContent).not.toContain('a');
+    expect(root.metrics.slicing.last).toEqual({ slices, preempted: false });
+  });
+
+  it('restarts when a newer update preempts the work in progress', () => {
+    const root = mount(rows(50, 'a'), container, options);
+    runAll();
+
+    root.update(rows(50, 'b'));
+    runSlice();
+    expect(tasks.length).toBe(1);
+
+    root.update(rows(50, 'c'));
+    runAll();
+
+    expect(container.textContent!.startsWith('c0c1')).toBe(true);
+    expect(container.textContent).not.toContain('b');
+
+    const { slicing } = root.metrics;
+    expect(slicing.preemptions).toBe(1);
+    expect(slicing.history.map(record => record.preempted)).toEqual([
+      false,
+      true,
+      false
+    ]);
+    expect(slicing.history[1]!.slices).toBe(1);
+
+    resetMetrics(root.metrics);
+    expect(root.metrics.slicing).toEqual({
+      last: null,
+      preemptions: 0,
+      history: []
+    });
+  });
+
+  it('undoes component renders of preempted work', async () => {
+    const log: string[] = [];
+    let renders = 0;
+    let increment = () => {};
+
+    function Counter({ label }: ComponentProps<{ label: string }>) {
+      const [count, setCount] = useState(0);
+      increment = () => setCount(count + 1);
+      renders++;
+
+      useEffect(() => {
+        log.push(label);
+      }, [label]);
+
+      return h('p', null, `${label}:${count}`);
+    }
+
+    // Plenty of work after the counter, so it renders
+    // in an early slice
+    const view = (label: string): VNode =>
+      h('div', null, [
+        h(Counter, { key: 'counter', label }),
+        ...Array.from({ length: 30 }, (_, i) => h('span', { key: i }))
+      ]);
+
+    const initial = view('x');
+    const root = mount(initial, container, options);
+    runAll();
+    expect(log).toEqual(['x']);
+
+    // Render the counter with a new label, but don't commit
+    root.update(view('y'));
+    const before = renders;
+    while (renders === before) runSlice();
+    expect(tasks.length).toBe(1);
+
+    // Going back to the committed tree leaves nothing to do
+    root.update(initial);
+    runAll();
+
+    expect(log).toEqual(['x']);
+    expect(container.querySelector('p')!.textContent).toBe('x:0');
+
+    // The component still updates from its committed VNode
+    increment();
+    await Promise.resolve();
+
+    expect(container.querySelector('p')!.textContent).toBe('x:1');
+    expect(log).toEqual(['x']);
+  });
+
+  it('keeps plain roots synchronous', () => {
+    const root = mount(rows(3, 'a'), container);
+    root.update(rows(3, 'b'));
+
+    expect(container.textContent).toBe('b0b1b2');
+    expect(root.metrics.slicing.last).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  h,
+  mount,
+  thunk,
+  createContext,
+  useContext,
+  useState,
+  createManualScheduler
+} from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+
+const nextTick = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+describe('Weave – context', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('reads the default value without a provider', () => {
+    const Theme = createContext('light');
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    mount(h(Label, null), container);
+    expect(container.textContent).toBe('light');
+  });
+
+  it('reads the nearest provider', () => {
+    const Theme = createContext('light');
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    mount(
+      h(Theme.Provider, { value: 'dark' }, [
+        h('div', null, [
+          h(Label, null),
+          h(Theme.Provider, { value: 'blue' }, [h(Label, null)])
+        ])
+      ]),
+      container
+    );
+
+    expect(container.textContent).toBe('darkblue');
+  });
+
+  it('updates consumers when the provided value changes', () => {
+    const Theme = createContext('light');
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    const view = (theme: string) =>
+      h(Theme.Provider, { value: theme }, [h('div', null, [h(Label, null)])]);
+
+    const root = mount(view('dark'), container);
+    const span = container.querySelector('span');
+
+    root.update(view('blue'));
+
+    expect(container.textContent).toBe('blue');
+    expect(container.querySelector('span')).toBe(span);
+  });
+
+  it('updates consumers below a reused thunk', () => {
+    const Theme = createContext('light');
+    let renders = 0;
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    function Static(): VNode {
+      renders++;
+      return h('div', null, [h(Label, null)]);
+    }
+
+    const renderStatic = () => h(Static, null);
+    const view = (theme: string) =>
+      h(Theme.Provider, { value: theme }, [thunk('static', renderStatic)]);
+
+    const root = mount(view('dark'), container);
+    root.update(view('blue'));
+
+    // The thunk is skipped, only the consumer re-renders
+    expect(container.textContent).toBe('blue');
+    expect(renders).toBe(1);
+  });
+
+  it('gives inserted and self-updating consumers the current value', async () => {
+    const Theme = createContext('light');
+    let increment = () => {};
+
+    function Counter(): VNode {
+      const [count, setCount] = useState(0);
+      increment = () => setCount(c => c + 1);
+      return h('b', null, `${useContext(Theme)}${count}`);
+    }
+
+    const view = (children: VNode[]) =>
+      h(Theme.Provider, { value: 'dark' }, [h('div', null, children)]);
+
+    const root = mount(view([]), container);
+    root.update(view([h(Counter, null)]));
+    expect(container.textContent).toBe('dark0');
+
+    increment();
+    await nextTick();
+    expect(container.textContent).toBe('dark1');
+  });
+
+  it('updates consumers when a stateful provider changes', async () => {
+    const Theme = createContext('light');
+    let toggle = () => {};
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    const renderLabel = () => h(Label, null);
+
+    function App(): VNode {
+      const [theme, setTheme] = useState('dark');
+      toggle = () => setTheme('blue');
+      return h(Theme.Provider, { value: theme }, [thunk('label', renderLabel)]);
+    }
+
+    mount(h(App, null), container);
+
+    toggle();
+    await nextTick();
+    expect(container.textContent).toBe('blue');
+  });
+
+  it('updates consumers of a stateful provider within one flush', () => {
+    const Theme = createContext('light');
+    const scheduler = createManualScheduler();
+    let toggle = () => {};
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    const renderLabel = () => h(Label, null);
+
+    function App(): VNode {
+      const [theme, setTheme] = useState('dark');
+      toggle = () => setTheme('blue');
+      return h(Theme.Provider, { value: theme }, [
+        h('b', null, theme),
+        thunk('label', renderLabel)
+      ]);
+    }
+
+    const root = mount(h(App, null), container, { scheduler });
+
+    toggle();
+    root.flush();
+    expect(container.textContent).toBe('blueblue');
+  });
+
+  it('stops notifying removed consumers', () => {
+    const Theme = createContext('light');
+    let renders = 0;
+
+    function Label(): VNode {
+      renders++;
+      return h('span', null, useContext(Theme));
+    }
+
+    const renderLabel = () => h(Label, null);
+    const view = (theme: string, show: boolean) =>
+      h(Theme.Provider, { value: theme }, [
+        h('div', null, show ? [thunk('label', renderLabel)] : [])
+      ]);
+
+    const root = mount(view('dark', true), container);
+    root.update(view('dark', false));
+    root.update(view('blue', false));
+
+    expect(renders).toBe(1);
+    expect(container.textContent).toBe('');
+  });
+
+  it('keeps separate roots isolated', () => {
+    const Theme = createContext('light');
+    const other = document.createElement('div');
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    const view = (theme: string) =>
+      h(Theme.Provider, { value: theme }, [h(Label, null)]);
+
+    const first = mount(view('dark'), container);
+    mount(view('blue'), other);
+
+    first.update(view('red'));
+
+    expect(container.textContent).toBe('red');
+    expect(other.textContent).toBe('blue');
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, ErrorBoundary, useEffect, useState } from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+
+const nextTick = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+const fallback = (error: unknown): VNode =>
+  h('p', { class: 'fallback' }, (error as Error).message);
+
+describe('Weave – error boundaries', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  function Broken(): VNode {
+    throw new Error('broken');
+  }
+
+  it('renders the fallback when a child throws on mount', () => {
+    mount(
+      h('div', null, [
+        h('span', null, 'before'),
+        h(ErrorBoundary, { fallback }, [h('b', null, 'ok'), h(Broken, null)]),
+        h('span', null, 'after')
+      ]),
+      container
+    );
+
+    expect(container.textContent).toBe('beforebrokenafter');
+    expect(container.querySelector('b')).toBeNull();
+  });
+
+  it('renders the fallback when a child throws on update', () => {
+    const errors: unknown[] = [];
+    const view = (broken: boolean) =>
+      h('div', null, [
+        h(ErrorBoundary, { fallback, onError: e => errors.push(e) }, [
+          broken ? h(Broken, null) : h('b', null, 'ok')
+        ]),
+        h('span', null, broken ? 'B' : 'A')
+      ]);
+
+    const root = mount(view(false), container);
+    root.update(view(true));
+
+    expect(container.textContent).toBe('brokenB');
+    expect(errors).toHaveLength(1);
+
+    // The boundary keeps showing the fallback
+    root.update(view(false));
+    expect(container.textContent).toBe('brokenA');
+  });
+
+  it('catches errors from lifecycle hooks and host operations', () => {
+    const view = (props: Record<string, unknown>) =>
+      h('section', null, [
+        h(ErrorBoundary, { fallback }, [
+          h('div', { class: 'widget', ...props }, 'widget')
+        ]),
+        h(ErrorBoundary, { fallback }, [
+          h('div', {
+            hooks: {
+              create: () => {
+                throw new Error('hook');
+              }
+            }
+          })
+        ])
+      ]);
+
+    const root = mount(view({}), container);
+    expect(container.textContent).toBe('widgethook');
+
+    // jsdom rejects attribute names with spaces
+    root.update(view({ 'bad name': 1 }));
+    expect(container.querySelector('.widget')).toBeNull();
+    expect(container.querySelectorAll('.fallback')).toHaveLength(2);
+  });
+
+  it('catches errors from effects', () => {
+    function Effectful(): VNode {
+      useEffect(() => {
+        throw new Error('effect');
+      }, []);
+      return h('span', null, 'content');
+    }
+
+    mount(h(ErrorBoundary, { fallback }, [h(Effectful, null)]), container);
+
+    expect(container.textContent).toBe('effect');
+  });
+
+  it('renders the children again after reset', async () => {
+    let fail = true;
+    let reset = () => {};
+
+    function Flaky(): VNode {
+      if (fail) throw new Error('flaky');
+      return h('span', null, 'recovered');
+    }
+
+    mount(
+      h(
+        ErrorBoundary,
+        {
+          fallback: (error, retry) => {
+            reset = retry;
+            return fallback(error);
+          }
+        },
+        [h(Flaky, null)]
+      ),
+      container
+    );
+    expect(container.textContent).toBe('flaky');
+
+    fail = false;
+    reset();
+    await nextTick();
+
+    expect(container.textContent).toBe('recovered');
+  });
+
+  it('passes errors of a fallback to the next boundary up', () => {
+    mount(
+      h(ErrorBoundary, { fallback: () => h('p', null, 'outer') }, [
+        h(
+          ErrorBoundary,
+          {
+            fallback: () => {
+              throw new Error('fallback');
+            }
+          },
+          [h(Broken, null)]
+        )
+      ]),
+      container
+    );
+
+    expect(container.textContent).toBe('outer');
+  });
+
+  it('finishes the commit and reports uncaught errors to onError', () => {
+    const errors: unknown[] = [];
+    const failingUpdate = {
+      update: () => {
+        throw new Error('update hook');
+      }
+    };
+
+    const view = (text: string) =>
+      h('div', null, [
+        h('span', { hooks: failingUpdate }, text),
+        h('b', null, text)
+      ]);
+
+    const root = mount(view('A'), container, {
+      onError: e => errors.push(e)
+    });
+
+    root.update(view('B'));
+    expect(errors).toHaveLength(1);
+    expect(container.textContent).toBe('BB');
+
+    // The root stays in sync for later updates
+    root.update(view('C'));
+    expect(container.textContent).toBe('CC');
+    expect(container.querySelectorAll('span')).toHaveLength(1);
+  });
+
+  it('rethrows uncaught errors without onError', () => {
+    const view = (broken: boolean) =>
+      h('div', null, [broken ? h(Broken, null) : h('b', null, 'ok')]);
+
+    const root = mount(view(false), container);
+
+    expect(() => root.update(view(true))).toThrow('broken');
+    expect(container.textContent).toBe('');
+
+    root.update(view(false));
+    expect(container.textContent).toBe('ok');
+  });
+
+  it('keeps sibling components updatable after an uncaught render error', () => {
+    let setCount: (count: number) => void = () => {};
+
+    const Counter = ({ label }: { label: string }): VNode => {
+      const [count, set] = useState(0);
+      setCount = set;
+      return h('span', null, `${count}${label}`);
+    };
+
+    const Flaky = ({ broken }: { broken: boolean }): VNode => {
+      if (broken) throw new Error('broken');
+      return h('b', null, 'ok');
+    };
+
+    const view = (label: string, broken: boolean) =>
+      h('div', null, [h(Counter, { label }), h(Flaky, { broken })]);
+
+    const errors: unknown[] = [];
+    const root = mount(view('a', false), container, {
+      onError: e => errors.push(e)
+    });
+
+    root.update(view('b', true));
+    expect(errors).toHaveLength(1);
+    expect(container.textContent).toBe('0aok');
+
+    setCount(5);
+    root.flush();
+    expect(container.textContent).toBe('5aok');
+  });
+});
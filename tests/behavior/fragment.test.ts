@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, Fragment } from '../../src/index.js';
+
+describe('Weave – fragments', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('renders fragment children without a wrapper element', () => {
+    const vnode = h('ul', null, [
+      h('li', null, 'A'),
+      h(Fragment, null, [
+        h('li', null, 'B'),
+        h('li', null, 'C')
+      ]),
+      h('li', null, 'D')
+    ]);
+
+    mount(vnode, container);
+
+    const ul = container.firstElementChild as HTMLElement;
+    expect(ul.children.length).toBe(4);
+    expect(ul.textContent).toBe('ABCD');
+  });
+
+  it('mounts a root fragment directly into the container', () => {
+    const vnode1 = h(Fragment, null, [
+      h('p', null, 'A'),
+      h('p', null, 'B')
+    ]);
+
+    const vnode2 = h(Fragment, null, [
+      h('p', null, 'A'),
+      h('p', null, 'B'),
+      h('p', null, 'C')
+    ]);
+
+    const root = mount(vnode1, container);
+    expect(container.children.length).toBe(2);
+
+    root.update(vnode2);
+    expect(container.textContent).toBe('ABC');
+
+    root.unmount();
+    expect(container.childNodes.length).toBe(0);
+  });
+
+  it('moves keyed fragments as whole ranges', () => {
+    const group = (key: string) =>
+      h(Fragment, { key }, [
+        h('dt', null, key),
+        h('dd', null, key.toLowerCase())
+      ]);
+
+    const vnode1 = h('dl', null, [group('A'), group('B'), group('C')]);
+    const vnode2 = h('dl', null, [group('C'), group('A'), group('B')]);
+
+    const root = mount(vnode1, container);
+
+    const dl = container.firstElementChild as HTMLElement;
+    const cTermBefore = dl.children[4];
+
+    root.update(vnode2);
+
+    expect(dl.textContent).toBe('CcAaBb');
+    expect(dl.children.length).toBe(6);
+
+    // identity preserved
+    expect(dl.children[0]).toBe(cTermBefore);
+  });
+
+  it('inserts and removes children inside a nested fragment', () => {
+    const vnode1 = h('div', null, [
+      h('span', null, 'start'),
+      h(Fragment, null, [h('b', null, 'x')]),
+      h('span', null, 'end')
+    ]);
+
+    const vnode2 = h('div', null, [
+      h('span', null, 'start'),
+      h(Fragment, null, [h('b', null, 'x'), h('i', null, 'y')]),
+      h('span', null, 'end')
+    ]);
+
+    const vnode3 = h('div', null, [
+      h('span', null, 'start'),
+      h('span', null, 'end')
+    ]);
+
+    const root = mount(vnode1, container);
+    const div = container.firstElementChild as HTMLElement;
+
+    root.update(vnode2);
+    expect(div.textContent).toBe('startxyend');
+
+    root.update(vnode3);
+    expect(div.textContent).toBe('startend');
+    expect(div.children.length).toBe(2);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, html, mount, Fragment } from '../../src/index.js';
+import type { ComponentProps, VNode } from '../../src/index.js';
+
+describe('Weave – html templates', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  function Card(props: ComponentProps<{ title: string }>): VNode {
+    return h('article', null, [h('h2', null, props.title), props.children]);
+  }
+
+  it('builds the same frozen VNodes as h()', () => {
+    const onClick = () => {};
+    const name = 'Ada';
+
+    const fromTemplate = html`
+      <div class="greeting" data-id=${7} hidden>
+        <button onclick=${onClick}>Hi</button>
+        Hello <b>${name}</b>!
+        <input value="x" />
+      </div>
+    `;
+
+    const fromH = h('div', { class: 'greeting', 'data-id': 7, hidden: true }, [
+      h('button', { onclick: onClick }, 'Hi'),
+      'Hello ',
+      h('b', null, name),
+      '!',
+      h('input', { value: 'x' })
+    ]);
+
+    expect(fromTemplate).toEqual(fromH);
+    expect(Object.isFrozen(fromTemplate)).toBe(true);
+    expect(Object.isFrozen(fromTemplate.props)).toBe(true);
+    expect(Object.isFrozen(fromTemplate.children)).toBe(true);
+  });
+
+  it('supports keys, mixed attributes, spreads and void elements', () => {
+    const items = ['a', 'b'];
+    const state = 'active';
+    const extra = { title: 'tip', class: 'override' };
+
+    const vnode = html`<ul>${items.map(
+      item => html`<li key=${item} class="item ${state}" ...${extra}>${item}</li>`
+    )}<br></ul>`;
+
+    expect(vnode).toEqual(
+      h('ul', null, [
+        h('li', { key: 'a', class: 'override', title: 'tip' }, 'a'),
+        h('li', { key: 'b', class: 'override', title: 'tip' }, 'b'),
+        h('br', null)
+      ])
+    );
+    expect((vnode.children as VNode[])[0]!.key).toBe('a');
+  });
+
+  it('renders components and fragments', () => {
+    const vnode = html`
+      <${Card} title="News">
+        <p>Body</p>
+      <//>
+      <>
+        <span>A</span><span>B</span>
+      </>
+    `;
+
+    expect(vnode).toEqual(
+      h(Fragment, null, [
+        h(Card, { title: 'News' }, h('p', null, 'Body')),
+        h(Fragment, null, [h('span', null, 'A'), h('span', null, 'B')])
+      ])
+    );
+
+    mount(vnode, container);
+    expect(container.innerHTML).toBe(
+      '<article><h2>News</h2><p>Body</p></article><span>A</span><span>B</span>'
+    );
+  });
+
+  it('drops comments along with the interpolations inside them', () => {
+    const a = 'a';
+    const b = 'b';
+
+    expect(html`<div><!-- ${a} --><p>${b}</p></div>`).toEqual(
+      h('div', null, [h('p', null, b)])
+    );
+  });
+
+  it('parses each template once', () => {
+    const row = (text: string) => html`<td>${text}</td>`;
+
+    const first = row('a');
+    const second = row('b');
+
+    expect(first.children).toBe('a');
+    expect(second.children).toBe('b');
+    expect(first).not.toBe(second);
+  });
+
+  it('points errors at the offending position', () => {
+    expect(() => html`<div>
+  <b>x</span>
+</div>`).toThrow(
+      'html: Unexpected closing tag </span>, expected </b> ' +
+        '(opened at line 2, column 3) at line 2, column 7\n' +
+        '    <b>x</span>\n' +
+        '        ^'
+    );
+
+    expect(() => html`<p title=${'x'} class="a>`).toThrow(
+      /Unterminated attribute value at line 1, column \d+/
+    );
+
+    expect(() => html`<section><p>text</p>`).toThrow(
+      'html: Unclosed </section> at line 1, column 1'
+    );
+
+    expect(() => html`<${42} />`).toThrow(
+      'html: Expected a component or tag name, got 42 at line 1, column 1'
+    );
+  });
+});
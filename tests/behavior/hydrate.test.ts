@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  h,
+  hydrate,
+  useState,
+  ErrorBoundary,
+  Fragment,
+  Suspense,
+  lazy
+} from '../../src/index.js';
+import type { LazyModule, VNode } from '../../src/index.js';
+import { renderToStream, renderToString } from '../../src/server.js';
+
+describe('Weave – hydration', () => {
+  let container: HTMLElement;
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  const warnings = () =>
+    warnSpy.mock.calls.map((call: unknown[]) => String(call[0]));
+
+  it('adopts the existing nodes instead of creating new ones', () => {
+    container.innerHTML = '<ul class="list"><li>a</li><li>b</li></ul>';
+    const ul = container.firstElementChild!;
+    const [a, b] = Array.from(ul.children);
+
+    const root = hydrate(
+      h('ul', { class: 'list' }, [h('li', null, 'a'), h('li', null, 'b')]),
+      container
+    );
+
+    expect(container.firstElementChild).toBe(ul);
+    expect(Array.from(ul.children)).toEqual([a, b]);
+    expect(root.metrics.nodes.created).toBe(0);
+    expect(warnings()).toEqual([]);
+
+    // Later updates patch the adopted nodes
+    root.update(
+      h('ul', { class: 'list' }, [h('li', null, 'a'), h('li', null, 'c')])
+    );
+    expect(ul.children[1]).toBe(b);
+    expect(b!.textContent).toBe('c');
+  });
+
+  it('attaches listeners, refs and create hooks', async () => {
+    container.innerHTML = '<button>0</button>';
+    const button = container.firstElementChild as HTMLElement;
+    const create = vi.fn();
+    const ref = vi.fn();
+
+    function Counter() {
+      const [count, setCount] = useState(0);
+      return h(
+        'button',
+        { onClick: () => setCount(count + 1), hooks: { create }, ref },
+        String(count)
+      );
+    }
+
+    hydrate(h(Counter, null), container);
+
+    expect(create).toHaveBeenCalledWith(expect.anything(), button);
+    expect(ref).toHaveBeenCalledWith(button);
+
+    button.click();
+    await Promise.resolve();
+
+    expect(container.firstElementChild).toBe(button);
+    expect(button.textContent).toBe('1');
+  });
+
+  it('hydrates fragments and text nodes separated by comments', () => {
+    container.innerHTML = '<p>Hello, <!---->world</p><hr>';
+
+    hydrate(
+      h(Fragment, null, [
+        h('p', null, [h(Fragment, null, 'Hello, '), h(Fragment, null, 'world')]),
+        h('hr', null)
+      ]),
+      container
+    );
+
+    expect(container.innerHTML).toBe('<p>Hello, world</p><hr>');
+    expect(container.firstElementChild!.childNodes.length).toBe(2);
+    expect(warnings()).toEqual([]);
+  });
+
+  it('reports mismatches with their path and patches them', () => {
+    container.innerHTML =
+      '<section><h2>Old</h2><ul><li>a</li><p>b</p><li>extra</li></ul></section>';
+    const h2 = container.querySelector('h2');
+
+    hydrate(
+      h('section', null, [
+        h('h2', null, 'New'),
+        h('ul', null, [h('li', null, 'a'), h('li', null, 'b')])
+      ]),
+      container
+    );
+
+    expect(container.innerHTML).toBe(
+      '<section><h2>New</h2><ul><li>a</li><li>b</li></ul></section>'
+    );
+    expect(container.querySelector('h2')).toBe(h2);
+
+    expect(warnings()).toEqual([
+      'Weave: Hydration mismatch at section[0] > h2[0] > #text[0]: expected "New", found "Old".',
+      'Weave: Hydration mismatch at section[0] > ul[1] > li[1]: expected <li>, found <p>.',
+      'Weave: Hydration mismatch at section[0] > ul[1] > p[2]: unexpected <p>.',
+      'Weave: Hydration mismatch at section[0] > ul[1] > li[2]: unexpected <li>.'
+    ]);
+  });
+
+  it('hydrates the fallback of a boundary whose children throw', () => {
+    container.innerHTML = '<div><p>broken</p><span>after</span></div>';
+    const p = container.querySelector('p');
+
+    function Broken(): VNode {
+      throw new Error('broken');
+    }
+
+    hydrate(
+      h('div', null, [
+        h(
+          ErrorBoundary,
+          { fallback: (error: unknown) => h('p', null, (error as Error).message) },
+          [h('b', null, 'ok'), h(Broken, null)]
+        ),
+        h('span', null, 'after')
+      ]),
+      container
+    );
+
+    expect(container.innerHTML).toBe('<div><p>broken</p><span>after</span></div>');
+    expect(container.querySelector('p')).toBe(p);
+    expect(warnings()).toEqual([]);
+  });
+
+  it('adopts the markup of renderToString()', () => {
+    const view = h('form', null, [
+      h('label', null, ['Name: ', h('input', { value: 'a', disabled: true })]),
+      h('p', null, [h(Fragment, null, 'one'), h(Fragment, null, 'two')])
+    ]);
+
+    container.innerHTML = renderToString(view);
+    const input = container.querySelector('input');
+
+    const root = hydrate(view, container);
+
+    expect(container.querySelector('input')).toBe(input);
+    expect(root.metrics.nodes.created).toBe(0);
+    expect(warnings()).toEqual([]);
+  });
+
+  it('adopts streamed markup once its placeholders are filled', async () => {
+    let load = () => {};
+    const Panel = lazy(
+      () =>
+        new Promise<LazyModule<Record<string, unknown>>>(resolve => {
+          load = () => resolve(() => h('p', null, 'panel'));
+        })
+    );
+
+    const content = () =>
+      h(Fragment, null, [
+        h(Suspense, { fallback: h('i', null, 'Loading') }, [h(Panel, null)]),
+        h('footer', null, 'end')
+      ]);
+
+    const page = h('div', { id: 'app' }, [content()]);
+    const reading = new Response(renderToStream(page)).text();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    load();
+
+    // Scripts set through innerHTML do not run by themselves
+    document.body.innerHTML = await reading;
+    for (const script of Array.from(document.querySelectorAll('script'))) {
+      (0, eval)(script.textContent!);
+    }
+
+    const app = document.getElementById('app')!;
+    expect(app.innerHTML).toBe('<p>panel</p><footer>end</footer>');
+
+    const p = app.firstElementChild;
+    hydrate(content(), app);
+
+    expect(app.firstElementChild).toBe(p);
+    expect(warnings()).toEqual([]);
+    document.body.innerHTML = '';
+  });
+
+  it('adopts the fallback of a boundary that failed after its markup was streamed', async () => {
+    function Broken(): VNode {
+      throw new Error('broken');
+    }
+
+    const content = () =>
+      h(ErrorBoundary, { fallback: () => h('p', null, 'fallback') }, [
+        h('ul', null, [
+          ...Array.from({ length: 20 }, (_, i) => h('li', null, `item ${i}`)),
+          h(Broken, null)
+        ])
+      ]);
+
+    const page = h('div', { id: 'app' }, [content()]);
+    const html = await new Response(
+      renderToStream(page, { highWaterMark: 64 })
+    ).text();
+
+    document.body.innerHTML = html;
+    for (const script of Array.from(document.querySelectorAll('script'))) {
+      (0, eval)(script.textContent!);
+    }
+
+    const app = document.getElementById('app')!;
+    expect(app.innerHTML).toBe('<p>fallback</p>');
+
+    const p = app.firstElementChild;
+    hydrate(content(), app);
+
+    expect(app.firstElementChild).toBe(p);
+    expect(warnings()).toEqual([]);
+    document.body.innerHTML = '';
+  });
+
+  it('removes and reports attributes that do not match the props', () => {
+    container.innerHTML =
+      '<div class="old" data-stale="1" disabled><input checked title="a"></div>';
+    const input = container.querySelector('input')!;
+
+    hydrate(
+      h('div', { class: 'new' }, [h('input', { checked: true, title: 'a' })]),
+      container
+    );
+
+    const div = container.firstElementChild!;
+    expect(div.getAttribute('class')).toBe('new');
+    expect(div.hasAttribute('data-stale')).toBe(false);
+    expect(div.hasAttribute('disabled')).toBe(false);
+    expect(container.querySelector('input')).toBe(input);
+
+    expect(warnings()).toEqual([
+      'Weave: Hydration mismatch at div[0]: expected class="new", found "old".',
+      'Weave: Hydration mismatch at div[0]: unexpected attribute data-stale.',
+      'Weave: Hydration mismatch at div[0]: unexpected attribute disabled.'
+    ]);
+  });
+
+  it('creates missing nodes', () => {
+    container.innerHTML = '<ul><li>a</li></ul>';
+
+    const root = hydrate(
+      h('ul', null, [h('li', null, 'a'), h('li', null, 'b')]),
+      container
+    );
+
+    expect(container.innerHTML).toBe('<ul><li>a</li><li>b</li></ul>');
+    expect(root.metrics.nodes.created).toBe(1);
+    expect(warnings()).toEqual([
+      'Weave: Hydration mismatch at ul[0] > li[1]: expected <li>, found nothing.'
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount } from '../../src/index.js';
+import type { ComponentProps, VNode } from '../../src/index.js';
+import { jsx, jsxs, Fragment } from '../../src/jsx-runtime.js';
+import { jsxDEV } from '../../src/jsx-dev-runtime.js';
+
+describe('Weave – JSX runtime', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('maps jsx() calls onto the same VNode shape as h()', () => {
+    // <p class="intro">Hello <b>Ada</b>!</p>
+    const vnode = jsxs('p', {
+      class: 'intro',
+      children: ['Hello ', jsx('b', { children: 'Ada' }), '!']
+    });
+
+    const expected = h('p', { class: 'intro' }, 'Hello ', h('b', null, 'Ada'), '!');
+
+    expect(vnode.type).toBe(expected.type);
+    expect(vnode.props).toEqual(expected.props);
+    expect(vnode.children).toHaveLength(3);
+
+    mount(vnode, container);
+    expect(container.innerHTML).toBe('<p class="intro">Hello <b>Ada</b>!</p>');
+  });
+
+  it('takes the key out of props', () => {
+    // <li key="a" class="item">A</li>
+    const vnode = jsx('li', { class: 'item', children: 'A' }, 'a');
+
+    expect(vnode.key).toBe('a');
+    expect(vnode.props).toEqual({ class: 'item' });
+    expect(Object.isFrozen(vnode)).toBe(true);
+
+    mount(vnode, container);
+    expect(container.innerHTML).toBe('<li class="item">A</li>');
+  });
+
+  it('supports fragments and components', () => {
+    function Item(props: ComponentProps<{ label: string }>): VNode {
+      return jsx('li', { children: [props.label, props.children] });
+    }
+
+    // <ul><><Item label="a" /><Item label="b">!</Item></></ul>
+    const vnode = jsx('ul', {
+      children: jsxs(Fragment, {
+        children: [
+          jsx(Item, { label: 'a' }, 'a'),
+          jsx(Item, { label: 'b', children: '!' }, 'b')
+        ]
+      })
+    });
+
+    mount(vnode, container);
+    expect(container.innerHTML).toBe('<ul><li>a</li><li>b!</li></ul>');
+  });
+
+  it('provides jsxDEV for development builds', () => {
+    const vnode = jsxDEV('span', { children: 'dev' }, undefined, false, {
+      fileName: 'app.tsx',
+      lineNumber: 1
+    });
+
+    mount(vnode, container);
+    expect(container.innerHTML).toBe('<span>dev</span>');
+  });
+});
@@ -0,0 +1,29 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+
+const root = new URL('../../', import.meta.url).pathname;
+
+describe('Weave – JSX types', () => {
+  it('type-checks intrinsic elements of a file that only uses the JSX runtime', () => {
+    const program = ts.createProgram([`${root}tests/types/jsx-elements.tsx`], {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+      types: [],
+      jsx: ts.JsxEmit.ReactJSX,
+      jsxImportSource: 'weave',
+      paths: { 'weave/jsx-runtime': [`${root}src/jsx-runtime.ts`] }
+    });
+
+    const errors = ts
+      .getPreEmitDiagnostics(program)
+      .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+    expect(errors).toEqual([]);
+  }, 60_000);
+});
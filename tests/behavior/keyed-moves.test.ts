@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount } from '../../src/index.js';
+import { diff } from '../../src/core/diff.js';
+
+const list = (ids: number[]) =>
+  h('ul', null, ids.map(id => h('li', { key: id }, String(id))));
+
+const range = (length: number) => Array.from({ length }, (_, i) => i);
+
+/**
+ * MOVE count of a diff that moves every reused child whose
+ * index changed (the previous keyed algorithm).
+ */
+function movesByIndex(oldIds: number[], newIds: number[]): number {
+  return newIds.filter(
+    (id, index) => oldIds.includes(id) && oldIds.indexOf(id) !== index
+  ).length;
+}
+
+function countMoves(oldIds: number[], newIds: number[]): number {
+  return diff(list(oldIds), list(newIds)).filter(p => p.type === 'MOVE')
+    .length;
+}
+
+/**
+ * Deterministic shuffle, so failures can be reproduced.
+ */
+function shuffle(ids: number[], seed: number): number[] {
+  const result = [...ids];
+  let state = seed;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    const j = state % (i + 1);
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+describe('Weave – keyed move minimization', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('benchmark: MOVE count before and after on a 1,000-row list', () => {
+    const rows = range(1000);
+
+    const cases = {
+      prepend: [-1, ...rows],
+      append: [...rows, 1000],
+      firstToLast: [...rows.slice(1), 0],
+      lastToFirst: [999, ...rows.slice(0, 999)],
+      swapRows: [0, 998, ...rows.slice(2, 998), 1, 999]
+    };
+
+    const before = Object.fromEntries(
+      Object.entries(cases).map(([name, ids]) => [name, movesByIndex(rows, ids)])
+    );
+    const after = Object.fromEntries(
+      Object.entries(cases).map(([name, ids]) => [name, countMoves(rows, ids)])
+    );
+
+    expect(before).toEqual({
+      prepend: 1000,
+      append: 0,
+      firstToLast: 1000,
+      lastToFirst: 1000,
+      swapRows: 2
+    });
+
+    expect(after).toEqual({
+      prepend: 0,
+      append: 0,
+      firstToLast: 1,
+      lastToFirst: 1,
+      swapRows: 2
+    });
+  });
+
+  it('prepends to a long list with a single insert', () => {
+    const root = mount(list(range(1000)), container);
+    const ul = container.firstElementChild as HTMLElement;
+    const firstBefore = ul.children[0];
+
+    const patches = diff(list(range(1000)), list([-1, ...range(1000)]));
+    const structural = patches.filter(p => p.type !== 'UPDATE');
+    expect(structural.map(p => p.type)).toEqual(['INSERT']);
+
+    root.update(list([-1, ...range(1000)]));
+
+    expect(ul.children.length).toBe(1001);
+    expect(ul.children[0]!.textContent).toBe('-1');
+    expect(ul.children[1]).toBe(firstBefore);
+  });
+
+  it('reports the list positions of inserts and moves', () => {
+    const rows = range(2000);
+    const next = shuffle(
+      [...rows.filter(id => id % 5 !== 0), ...range(50).map(id => 3000 + id)],
+      7
+    );
+
+    // Apply the patches to a plain array of ids
+    const live = [...rows];
+    for (const patch of diff(list(rows), list(next))) {
+      if (patch.type === 'REMOVE') {
+        live.splice(live.indexOf(patch.vnode.key as number), 1);
+      } else if (patch.type === 'INSERT') {
+        live.splice(patch.index, 0, patch.vnode.key as number);
+      } else if (patch.type === 'MOVE') {
+        expect(live[patch.from]).toBe(patch.vnode.key);
+        live.splice(patch.from, 1);
+        live.splice(patch.to, 0, patch.vnode.key as number);
+      }
+    }
+
+    expect(live).toEqual(next);
+  });
+
+  it('keeps the DOM in order through inserts, removals and moves', () => {
+    let ids = range(30);
+    const root = mount(list(ids), container);
+    const ul = container.firstElementChild as HTMLElement;
+
+    const nodes = new Map<string, Element>();
+    Array.from(ul.children).forEach(li => nodes.set(li.textContent!, li));
+
+    for (let seed = 1; seed <= 20; seed++) {
+      // Shuffle, drop a few rows and add new ones
+      const kept = shuffle(ids, seed).filter(id => id % 7 !== seed % 7);
+      const added = [100 + seed * 2, 101 + seed * 2];
+      const next = shuffle([...kept, ...added], seed + 100);
+
+      root.update(list(next));
+
+      expect(Array.from(ul.children).map(li => li.textContent)).toEqual(
+        next.map(String)
+      );
+
+      // Reused rows keep their DOM node
+      kept.forEach(id => {
+        const node = nodes.get(String(id));
+        if (node) expect(ul.children[next.indexOf(id)]).toBe(node);
+      });
+
+      Array.from(ul.children).forEach(li => nodes.set(li.textContent!, li));
+      ids = next;
+    }
+  });
+});
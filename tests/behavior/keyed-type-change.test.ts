@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { h, mount } from '../../src/index.js';
 
 describe('Weave – keyed child type change', () => {
@@ -39,4 +39,161 @@ describe('Weave – keyed child type change', () => {
     // Content must still be correct
     expect(container.textContent).toBe('Hello');
   });
+
+  describe('partially keyed children', () => {
+    it('keeps unkeyed siblings when a keyed child is inserted', () => {
+      const vnode1 = h('div', null, [
+        h('h2', null, 'Title'),
+        h('p', { key: 'a' }, 'A'),
+        h('footer', null, 'End')
+      ]);
+
+      const vnode2 = h('div', null, [
+        h('h2', null, 'Title'),
+        h('p', { key: 'b' }, 'B'),
+        h('p', { key: 'a' }, 'A'),
+        h('footer', null, 'End')
+      ]);
+
+      const root = mount(vnode1, container);
+      const div = container.firstElementChild as HTMLElement;
+      const [h2, a, footer] = Array.from(div.children);
+
+      root.update(vnode2);
+
+      expect(div.textContent).toBe('TitleBAEnd');
+      expect(div.children[0]).toBe(h2);
+      expect(div.children[2]).toBe(a);
+      expect(div.children[3]).toBe(footer);
+    });
+
+    it('matches unkeyed children by position among unkeyed siblings', () => {
+      const vnode1 = h('div', null, [
+        h('span', null, 'one'),
+        h('p', { key: 'a' }, 'A'),
+        h('span', null, 'two')
+      ]);
+
+      const vnode2 = h('div', null, [
+        h('p', { key: 'a' }, 'A'),
+        h('span', null, 'one!'),
+        h('span', null, 'two!')
+      ]);
+
+      const root = mount(vnode1, container);
+      const div = container.firstElementChild as HTMLElement;
+      const [one, a, two] = Array.from(div.children);
+
+      root.update(vnode2);
+
+      expect(div.textContent).toBe('Aone!two!');
+      expect(Array.from(div.children)).toEqual([a, one, two]);
+    });
+
+    it('replaces an unkeyed child whose type changed at its position', () => {
+      const vnode1 = h('div', null, [
+        h('p', { key: 'a' }, 'A'),
+        h('span', null, 'x')
+      ]);
+
+      const vnode2 = h('div', null, [
+        h('p', { key: 'a' }, 'A'),
+        h('em', null, 'x')
+      ]);
+
+      const root = mount(vnode1, container);
+      const div = container.firstElementChild as HTMLElement;
+      const a = div.children[0];
+
+      root.update(vnode2);
+
+      expect(div.children[0]).toBe(a);
+      expect(div.children[1]!.tagName).toBe('EM');
+      expect(div.querySelector('span')).toBeNull();
+    });
+  });
+
+  describe('duplicate keys', () => {
+    let warnSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+    });
+
+    it('pairs duplicate keys in order of appearance', () => {
+      const vnode1 = h('ul', null, [
+        h('li', { key: 'x' }, 'first'),
+        h('li', { key: 'y' }, 'Y'),
+        h('li', { key: 'x' }, 'second')
+      ]);
+
+      const vnode2 = h('ul', null, [
+        h('li', { key: 'y' }, 'Y'),
+        h('li', { key: 'x' }, 'first'),
+        h('li', { key: 'x' }, 'second')
+      ]);
+
+      const root = mount(vnode1, container);
+      const ul = container.firstElementChild as HTMLElement;
+      const [first, y, second] = Array.from(ul.children);
+
+      root.update(vnode2);
+
+      expect(ul.textContent).toBe('Yfirstsecond');
+      expect(Array.from(ul.children)).toEqual([y, first, second]);
+    });
+
+    it('keeps the first duplicate when one is dropped', () => {
+      const vnode1 = h('ul', null, [
+        h('li', { key: 'x' }, 'first'),
+        h('li', { key: 'x' }, 'second')
+      ]);
+
+      const vnode2 = h('ul', null, [h('li', { key: 'x' }, 'only')]);
+
+      const root = mount(vnode1, container);
+      const ul = container.firstElementChild as HTMLElement;
+      const first = ul.children[0];
+
+      root.update(vnode2);
+
+      expect(ul.children.length).toBe(1);
+      expect(ul.children[0]).toBe(first);
+      expect(ul.textContent).toBe('only');
+    });
+
+    it('warns once per duplicated key in dev builds', () => {
+      h('ul', null, [
+        h('li', { key: 'x' }, 'A'),
+        h('li', { key: 'x' }, 'B'),
+        h('li', { key: 'x' }, 'C'),
+        h('li', { key: 1 }, 'D'),
+        h('li', { key: '1' }, 'E')
+      ]);
+
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(String(warnSpy.mock.calls[0]![0])).toContain(
+        'Duplicate key "x"'
+      );
+    });
+
+    it('stays silent in production builds', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+
+      try {
+        h('ul', null, [
+          h('li', { key: 'x' }, 'A'),
+          h('li', { key: 'x' }, 'B')
+        ]);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+  });
 });
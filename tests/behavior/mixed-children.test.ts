@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount } from '../../src/index.js';
+
+describe('Weave – mixed text and element children', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('renders text nodes next to elements', () => {
+    const vnode = h('p', null, 'Hello ', h('b', null, 'Ada'), '!');
+
+    mount(vnode, container);
+
+    const p = container.firstElementChild as HTMLElement;
+    expect(p.childNodes.length).toBe(3);
+    expect(p.innerHTML).toBe('Hello <b>Ada</b>!');
+  });
+
+  it('updates individual text nodes in place', () => {
+    const view = (name: string, count: number) =>
+      h('p', null, 'Hello ', h('b', null, name), ', you have ', count, ' items');
+
+    const root = mount(view('Ada', 1), container);
+
+    const p = container.firstElementChild as HTMLElement;
+    const greetingBefore = p.childNodes[0];
+    const boldBefore = p.childNodes[1];
+
+    root.update(view('Grace', 2));
+
+    expect(p.textContent).toBe('Hello Grace, you have 2 items');
+
+    // identity preserved
+    expect(p.childNodes[0]).toBe(greetingBefore);
+    expect(p.childNodes[1]).toBe(boldBefore);
+  });
+
+  it('inserts and removes text nodes between elements', () => {
+    const vnode1 = h('p', null, h('b', null, 'A'), h('i', null, 'B'));
+    const vnode2 = h('p', null, h('b', null, 'A'), ' and ', h('i', null, 'B'));
+
+    const root = mount(vnode1, container);
+    const p = container.firstElementChild as HTMLElement;
+
+    root.update(vnode2);
+    expect(p.innerHTML).toBe('<b>A</b> and <i>B</i>');
+
+    root.update(vnode1);
+    expect(p.innerHTML).toBe('<b>A</b><i>B</i>');
+  });
+
+  it('moves text nodes along with keyed siblings', () => {
+    const vnode1 = h('p', null, 'x', h('b', { key: 'a' }, 'A'), h('i', { key: 'b' }, 'B'));
+    const vnode2 = h('p', null, 'x', h('i', { key: 'b' }, 'B'), h('b', { key: 'a' }, 'A'));
+
+    const root = mount(vnode1, container);
+    const p = container.firstElementChild as HTMLElement;
+
+    root.update(vnode2);
+    expect(p.textContent).toBe('xBA');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { h, createPortal, hydrate, mount } from '../../src/index.js';
+
+const SVG = 'http://www.w3.org/2000/svg';
+const MATHML = 'http://www.w3.org/1998/Math/MathML';
+const XHTML = 'http://www.w3.org/1999/xhtml';
+const XLINK = 'http://www.w3.org/1999/xlink';
+
+describe('Weave – SVG and MathML namespaces', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('creates SVG elements in the SVG namespace', () => {
+    mount(
+      h('svg', { viewBox: '0 0 10 10' }, [
+        h('g', null, [h('circle', { cx: 5, cy: 5, r: 4 })]),
+        h('path', { d: 'M0 0L10 10' })
+      ]),
+      container
+    );
+
+    const svg = container.querySelector('svg')!;
+    expect(svg.namespaceURI).toBe(SVG);
+    expect(svg.getAttribute('viewBox')).toBe('0 0 10 10');
+    expect(container.querySelector('circle')!.namespaceURI).toBe(SVG);
+    expect(container.querySelector('circle')!.getAttribute('r')).toBe('4');
+    expect(container.querySelector('path')!.namespaceURI).toBe(SVG);
+  });
+
+  it('creates inserted children in the namespace of their parent', () => {
+    const chart = (values: number[]) =>
+      h(
+        'svg',
+        null,
+        values.map((value, i) => h('rect', { key: i, height: value }))
+      );
+
+    const root = mount(chart([1]), container);
+    root.update(chart([1, 2, 3]));
+
+    const rects = Array.from(container.querySelectorAll('rect'));
+    expect(rects).toHaveLength(3);
+    expect(rects.every(rect => rect.namespaceURI === SVG)).toBe(true);
+    expect(rects[2]!.getAttribute('height')).toBe('3');
+  });
+
+  it('switches back to HTML inside foreignObject', () => {
+    mount(
+      h('svg', null, [h('foreignObject', null, [h('p', null, 'text')])]),
+      container
+    );
+
+    expect(container.querySelector('foreignObject')!.namespaceURI).toBe(SVG);
+    expect(container.querySelector('p')!.namespaceURI).toBe(XHTML);
+    expect(container.querySelector('p')).toBeInstanceOf(HTMLParagraphElement);
+  });
+
+  it('creates portal content in the namespace of its container', () => {
+    const svg = document.createElementNS(SVG, 'svg');
+
+    mount(h('div', null, [createPortal(h('circle', { r: 2 }), svg)]), container);
+
+    expect(svg.firstChild).toBeInstanceOf(SVGElement);
+    expect((svg.firstChild as Element).namespaceURI).toBe(SVG);
+  });
+
+  it('creates MathML elements in the MathML namespace', () => {
+    mount(h('math', null, [h('mi', null, 'x')]), container);
+
+    expect(container.querySelector('math')!.namespaceURI).toBe(MATHML);
+    expect(container.querySelector('mi')!.namespaceURI).toBe(MATHML);
+  });
+
+  it('sets xlink: and xml: attributes in their namespaces', () => {
+    const view = (href: string | null) =>
+      h('svg', null, [h('use', { 'xlink:href': href, 'xml:lang': 'en' })]);
+
+    const root = mount(view('#icon'), container);
+    const use = container.querySelector('use')!;
+
+    expect(use.getAttributeNS(XLINK, 'href')).toBe('#icon');
+    expect(use.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang')).toBe('en');
+
+    root.update(view(null));
+    expect(use.hasAttributeNS(XLINK, 'href')).toBe(false);
+  });
+
+  it('updates props and listeners of SVG elements', () => {
+    const onClick = vi.fn();
+    const view = (fill: string) =>
+      h('svg', null, [h('circle', { fill, onClick })]);
+
+    const root = mount(view('red'), container);
+    root.update(view('blue'));
+
+    const circle = container.querySelector('circle')!;
+    expect(circle.getAttribute('fill')).toBe('blue');
+
+    circle.dispatchEvent(new Event('click'));
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('hydrates SVG markup', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    container.innerHTML =
+      '<svg><circle r="1"></circle><foreignObject><p>x</p></foreignObject></svg>';
+    const circle = container.querySelector('circle');
+
+    hydrate(
+      h('svg', null, [
+        h('circle', { r: 1 }),
+        h('foreignObject', null, [h('p', null, 'x')])
+      ]),
+      container
+    );
+
+    expect(container.querySelector('circle')).toBe(circle);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  h,
+  mount,
+  createPortal,
+  createContext,
+  useContext,
+  useEffect
+} from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+
+describe('Weave – portals', () => {
+  let container: HTMLElement;
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    target = document.createElement('div');
+  });
+
+  it('renders children into the target container', () => {
+    mount(
+      h('div', { class: 'app' }, [
+        h('span', null, 'inline'),
+        createPortal(h('p', null, 'modal'), target),
+        h('span', null, 'after')
+      ]),
+      container
+    );
+
+    expect(container.textContent).toBe('inlineafter');
+    expect(target.innerHTML).toBe('<p>modal</p>');
+  });
+
+  it('diffs portal children in place', () => {
+    const view = (items: string[]) =>
+      h('div', null, [
+        createPortal(
+          items.map(item => h('li', { key: item }, item)),
+          target
+        ),
+        h('span', null, 'app')
+      ]);
+
+    const root = mount(view(['A', 'B']), container);
+    const itemB = target.children[1];
+
+    root.update(view(['B', 'C', 'A']));
+
+    expect(target.textContent).toBe('BCA');
+    expect(target.children[0]).toBe(itemB);
+    expect(container.textContent).toBe('app');
+  });
+
+  it('removes portal content with its owner', () => {
+    let cleanups = 0;
+
+    function Modal(): VNode {
+      useEffect(() => () => cleanups++, []);
+      return h('p', null, 'modal');
+    }
+
+    const view = (open: boolean) =>
+      h('div', null, [
+        h('section', null, open ? [createPortal(h(Modal, null), target)] : [])
+      ]);
+
+    const root = mount(view(true), container);
+    expect(target.textContent).toBe('modal');
+
+    root.update(view(false));
+    expect(target.childNodes.length).toBe(0);
+    expect(cleanups).toBe(1);
+
+    root.update(view(true));
+    root.unmount();
+    expect(target.childNodes.length).toBe(0);
+    expect(cleanups).toBe(2);
+  });
+
+  it('moves content when the container changes', () => {
+    const other = document.createElement('div');
+    const view = (to: HTMLElement) =>
+      h('div', null, [createPortal(h('p', null, 'toast'), to)]);
+
+    const root = mount(view(target), container);
+    const p = target.firstChild;
+
+    root.update(view(other));
+
+    expect(target.childNodes.length).toBe(0);
+    expect(other.firstChild).toBe(p);
+  });
+
+  it('keeps portals sharing a container in order', () => {
+    const toast = (text: string) => createPortal(h('p', null, text), target);
+
+    const root = mount(
+      h('div', null, [toast('one'), toast('two')]),
+      container
+    );
+    expect(target.textContent).toBe('onetwo');
+
+    root.update(
+      h('div', null, [
+        createPortal([h('p', null, 'one'), h('p', null, 'more')], target),
+        toast('two')
+      ])
+    );
+    expect(target.textContent).toBe('onemoretwo');
+  });
+
+  it('passes context through the portal', () => {
+    const Theme = createContext('light');
+
+    function Label(): VNode {
+      return h('span', null, useContext(Theme));
+    }
+
+    mount(
+      h(Theme.Provider, { value: 'dark' }, [createPortal(h(Label, null), target)]),
+      container
+    );
+
+    expect(target.textContent).toBe('dark');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, createRef, useRef, useEffect } from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+
+describe('Weave – refs', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  it('sets an object ref once the node is inserted', () => {
+    const ref = createRef<HTMLInputElement>();
+    let connectedAtAttach = false;
+
+    const callback = (node: HTMLInputElement | null) => {
+      if (node) connectedAtAttach = node.isConnected;
+    };
+
+    mount(h('form', null, [h('input', { ref }), h('input', { ref: callback })]), container);
+
+    expect(ref.current).toBe(container.querySelector('input'));
+    expect(connectedAtAttach).toBe(true);
+  });
+
+  it('keeps the ref pointing at the reused node across updates', () => {
+    const ref = createRef<HTMLElement>();
+
+    const root = mount(h('div', null, [h('p', { ref }, 'A')]), container);
+    const p = ref.current;
+
+    root.update(h('div', null, [h('p', { ref }, 'B')]));
+
+    expect(ref.current).toBe(p);
+    expect(ref.current!.textContent).toBe('B');
+  });
+
+  it('moves the node to a new ref when the ref changes', () => {
+    const first = createRef<HTMLElement>();
+    const second = createRef<HTMLElement>();
+
+    const root = mount(h('div', { ref: first }), container);
+    const div = first.current;
+
+    root.update(h('div', { ref: second }));
+
+    expect(first.current).toBe(null);
+    expect(second.current).toBe(div);
+  });
+
+  it('resets refs to null on remove, replace and unmount', () => {
+    const calls: Array<string | null> = [];
+    const callback = (node: HTMLElement | null) => calls.push(node ? node.tagName : null);
+    const ref = createRef<HTMLElement>();
+
+    const root = mount(h('div', null, [h('span', { key: 'a', ref: callback })]), container);
+
+    // REMOVE
+    root.update(h('div', null, []));
+    expect(calls).toEqual(['SPAN', null]);
+
+    // REPLACE
+    root.update(h('div', null, [h('b', { ref })]));
+    root.update(h('section', null));
+    expect(ref.current).toBe(null);
+
+    // unmount
+    root.update(h('section', { ref }));
+    expect(ref.current).not.toBe(null);
+    root.unmount();
+    expect(ref.current).toBe(null);
+  });
+
+  it('gives components access to host nodes through useRef', () => {
+    function AutoFocus(): VNode {
+      const input = useRef<HTMLInputElement>();
+
+      useEffect(() => {
+        input.current?.focus();
+      }, []);
+
+      return h('input', { ref: input });
+    }
+
+    mount(h(AutoFocus, null), container);
+
+    expect(document.activeElement).toBe(container.querySelector('input'));
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, createManualScheduler, useState } from '../../src/index.js';
+import type { ManualScheduler } from '../../src/index.js';
+import { resetMetrics } from '../../src/renderer/metrics.js';
+
+describe('Weave – scheduled updates', () => {
+  let container: HTMLElement;
+  let scheduler: ManualScheduler;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    scheduler = createManualScheduler();
+  });
+
+  const label = (text: string) => h('p', null, text);
+
+  it('collapses updates scheduled before a flush into one', () => {
+    const root = mount(label('0'), container, { scheduler });
+
+    root.scheduleUpdate(label('1'));
+    root.scheduleUpdate(label('2'));
+    root.scheduleUpdate(label('3'));
+
+    expect(container.textContent).toBe('0');
+    expect(scheduler.pending).toBe(1);
+
+    scheduler.run();
+
+    expect(container.textContent).toBe('3');
+    expect(root.metrics.updates).toBe(2);
+    expect(root.metrics.scheduling).toEqual({
+      requests: 3,
+      flushes: 1,
+      coalesced: 2
+    });
+
+    resetMetrics(root.metrics);
+    expect(root.metrics.scheduling).toEqual({
+      requests: 0,
+      flushes: 0,
+      coalesced: 0
+    });
+  });
+
+  it('flushes on demand', () => {
+    const root = mount(label('0'), container, { scheduler });
+
+    root.scheduleUpdate(label('1'));
+    root.flush();
+    expect(container.textContent).toBe('1');
+
+    // The scheduled task finds nothing left to do
+    scheduler.run();
+    expect(root.metrics.updates).toBe(2);
+    expect(root.metrics.scheduling.flushes).toBe(1);
+  });
+
+  it('renders component state changes on the root scheduler', () => {
+    let renders = 0;
+    let setCount: (count: number) => void = () => {};
+
+    const Counter = () => {
+      renders++;
+      const [count, set] = useState(0);
+      setCount = set;
+      return label(String(count));
+    };
+
+    mount(h(Counter, null), container, { scheduler });
+    setCount(1);
+    setCount(2);
+
+    expect(container.textContent).toBe('0');
+    expect(scheduler.pending).toBe(1);
+
+    scheduler.run();
+
+    expect(container.textContent).toBe('2');
+    expect(renders).toBe(2);
+  });
+
+  it('flushes component state changes on demand', () => {
+    let setCount: (count: number) => void = () => {};
+
+    const Counter = () => {
+      const [count, set] = useState(0);
+      setCount = set;
+      return label(String(count));
+    };
+
+    const root = mount(h(Counter, null), container, { scheduler });
+    setCount(1);
+    root.flush();
+
+    expect(container.textContent).toBe('1');
+  });
+
+  it('drops a scheduled tree when update() renders a newer one', () => {
+    const root = mount(label('0'), container, { scheduler });
+
+    root.scheduleUpdate(label('scheduled'));
+    root.update(label('direct'));
+    scheduler.run();
+
+    expect(container.textContent).toBe('direct');
+    expect(root.metrics.scheduling.coalesced).toBe(1);
+  });
+
+  it('flushes in a microtask by default', async () => {
+    const root = mount(label('0'), container);
+
+    root.scheduleUpdate(label('1'));
+    root.scheduleUpdate(label('2'));
+    expect(container.textContent).toBe('0');
+
+    await Promise.resolve();
+
+    expect(container.textContent).toBe('2');
+    expect(root.metrics.scheduling.coalesced).toBe(1);
+  });
+
+  it('discards a scheduled update on unmount', () => {
+    const root = mount(label('0'), container, { scheduler });
+
+    root.scheduleUpdate(label('1'));
+    root.unmount();
+    scheduler.run();
+
+    expect(container.childNodes.length).toBe(0);
+  });
+});
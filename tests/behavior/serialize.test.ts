@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  h,
+  mount,
+  createHandlerRegistry,
+  decodePatches,
+  encodePatches
+} from '../../src/index.js';
+import type { EncodedPatch, HandlerRegistry, VNode } from '../../src/index.js';
+import { diff } from '../../src/core/diff.js';
+
+describe('Weave – serializable patches', () => {
+  let container: HTMLElement;
+  let handlers: HandlerRegistry;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    handlers = createHandlerRegistry();
+  });
+
+  /**
+   * Encode a diff and send it through JSON,
+   * as a worker message or a file would.
+   */
+  const transfer = (prev: VNode | null, next: VNode): EncodedPatch[] =>
+    JSON.parse(
+      JSON.stringify(encodePatches(diff(prev, next), handlers))
+    ) as EncodedPatch[];
+
+  const list = (keys: string[], title: string) =>
+    h('section', { class: 'list' }, [
+      h('h2', null, title),
+      h(
+        'ul',
+        null,
+        keys.map(key => h('li', { key, 'data-key': key }, key))
+      )
+    ]);
+
+  it('replays encoded patches into another container', () => {
+    const v1 = list(['a', 'b', 'c'], 'Before');
+    const v2 = list(['c', 'a', 'd'], 'After');
+
+    const root = mount(null, container);
+    root.apply(decodePatches(transfer(null, v1), handlers));
+
+    const section = container.firstElementChild as HTMLElement;
+    const itemA = section.querySelector('[data-key="a"]');
+
+    root.apply(decodePatches(transfer(v1, v2), handlers));
+
+    const reference = document.createElement('div');
+    mount(v2, reference);
+
+    expect(container.innerHTML).toBe(reference.innerHTML);
+
+    // Nodes are addressed by id, so they are reused
+    expect(container.firstElementChild).toBe(section);
+    expect(section.querySelector('[data-key="a"]')).toBe(itemA);
+  });
+
+  it('encodes handlers as ids and resolves them when decoding', () => {
+    const onClick = vi.fn();
+    const encoded = transfer(null, h('button', { onClick }, 'Go'));
+
+    const replace = encoded[0] as Extract<EncodedPatch, { type: 'REPLACE' }>;
+    expect(replace.node!.props).toEqual({ onClick: { $handler: 0 } });
+
+    const root = mount(null, container);
+    root.apply(decodePatches(encoded, handlers));
+
+    (container.firstElementChild as HTMLElement).click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets handlers that are not retained', () => {
+    const keep = () => {};
+    const drop = () => {};
+
+    const keepId = handlers.register(keep);
+    const dropId = handlers.register(drop);
+    expect(handlers.register(keep)).toBe(keepId);
+
+    handlers.retain(new Set([keep]));
+
+    expect(handlers.resolve(keepId)).toBe(keep);
+    expect(handlers.resolve(dropId)).toBeUndefined();
+    expect(() =>
+      decodePatches(
+        [{ type: 'SET_PROP', id: 0, key: 'onClick', value: { $handler: dropId } }],
+        handlers
+      )
+    ).toThrow('unknown handler');
+  });
+
+  it('rejects VNodes and props without an encoded form', () => {
+    const Greeting = () => h('p', null, 'Hi');
+
+    expect(() => transfer(null, h('div', null, [h(Greeting, null)]))).toThrow(
+      'only elements, fragments and text can be encoded'
+    );
+
+    expect(() => transfer(null, h('x-chart', { data: new Date(0) }))).toThrow(
+      'prop "data" cannot be encoded'
+    );
+  });
+
+  it('leaves hooks and refs out of the encoded props', () => {
+    const create = vi.fn();
+    const ref = vi.fn();
+
+    const encoded = transfer(
+      null,
+      h('div', { id: 'x', hooks: { create }, ref })
+    );
+
+    const replace = encoded[0] as Extract<EncodedPatch, { type: 'REPLACE' }>;
+    expect(replace.node!.props).toEqual({ id: 'x' });
+  });
+
+  it('rejects update() after patches were applied, until unmount()', () => {
+    const v1 = list(['a'], 'Remote');
+
+    const root = mount(null, container);
+    root.apply(decodePatches(transfer(null, v1), handlers));
+
+    const section = container.firstElementChild;
+
+    expect(() => root.update(list(['a', 'b'], 'Local'))).toThrow(
+      'root.update: this root shows patches from apply()'
+    );
+    expect(() => root.scheduleUpdate(list(['a'], 'Local'))).toThrow(
+      'root.scheduleUpdate: this root shows patches from apply()'
+    );
+    expect(container.firstElementChild).toBe(section);
+
+    root.unmount();
+    root.update(list(['a', 'b'], 'Local'));
+
+    expect(container.textContent).toBe('Localab');
+  });
+});
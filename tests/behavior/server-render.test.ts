@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import {
+  h,
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  ErrorBoundary,
+  Fragment,
+  Suspense,
+  lazy
+} from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+import { renderToString } from '../../src/server.js';
+
+describe('Weave – renderToString', () => {
+  it('renders without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+
+    expect(
+      renderToString(
+        h('ul', { class: 'list' }, [h('li', null, 'a'), h('li', null, 'b')])
+      )
+    ).toBe('<ul class="list"><li>a</li><li>b</li></ul>');
+  });
+
+  it('escapes text and attribute values', () => {
+    expect(
+      renderToString(
+        h('a', { title: '"Tom" & <Jerry>', href: '/?a=1&b=2' }, '<script>&')
+      )
+    ).toBe(
+      '<a title="&quot;Tom&quot; &amp; &lt;Jerry&gt;" href="/?a=1&amp;b=2">' +
+        '&lt;script&gt;&amp;</a>'
+    );
+  });
+
+  it('leaves out handlers, hooks, refs and keys', () => {
+    const create = vi.fn();
+
+    expect(
+      renderToString(
+        h('button', {
+          key: 'go',
+          id: 'go',
+          onClick: () => {},
+          hooks: { create },
+          ref: () => {}
+        })
+      )
+    ).toBe('<button id="go"></button>');
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('writes void elements and boolean attributes', () => {
+    expect(
+      renderToString(
+        h('form', null, [
+          h('input', { type: 'checkbox', checked: true, disabled: false }),
+          h('br', null),
+          h('img', { src: 'a.png', alt: '' }),
+          h('div', { 'aria-hidden': true })
+        ])
+      )
+    ).toBe(
+      '<form><input type="checkbox" checked><br><img src="a.png" alt="">' +
+        '<div aria-hidden="true"></div></form>'
+    );
+
+    expect(() => renderToString(h('br', null, 'text'))).toThrow(
+      'void element'
+    );
+  });
+
+  it('rejects names that would break out of a tag', () => {
+    expect(() => renderToString(h('x-widget', { 'a"><x': 1 }))).toThrow(
+      'Invalid attribute name'
+    );
+  });
+
+  it('writes script and style content as it is', () => {
+    expect(renderToString(h('style', null, 'a > b { color: red }'))).toBe(
+      '<style>a > b { color: red }</style>'
+    );
+    expect(() => renderToString(h('script', null, '</script><b>'))).toThrow(
+      'must not contain'
+    );
+  });
+
+  it('separates adjacent text nodes with comments', () => {
+    expect(
+      renderToString(
+        h('p', null, [
+          h(Fragment, null, 'Hello, '),
+          h(Fragment, null, ''),
+          h(Fragment, null, 'world')
+        ])
+      )
+    ).toBe('<p>Hello, <!---->world</p>');
+  });
+
+  it('renders components with state and context, without effects', () => {
+    const Theme = createContext('light');
+    const effect = vi.fn();
+
+    function Label({ text }: { text: string }) {
+      const theme = useContext(Theme);
+      const [count] = useState(2);
+      useEffect(effect, []);
+      return h('span', { class: theme }, `${text} ${count}`);
+    }
+
+    expect(
+      renderToString(
+        h(Theme.Provider, { value: 'dark' }, [h(Label, { text: 'x' })])
+      )
+    ).toBe('<span class="dark">x 2</span>');
+    expect(effect).not.toHaveBeenCalled();
+  });
+
+  it('renders fallbacks of error and Suspense boundaries', () => {
+    function Broken(): VNode {
+      throw new Error('broken');
+    }
+    const Lazy = lazy(() => new Promise<never>(() => {}));
+
+    expect(
+      renderToString(
+        h('div', null, [
+          h(
+            ErrorBoundary,
+            { fallback: (error: unknown) => h('p', null, (error as Error).message) },
+            [h('b', null, 'lost'), h(Broken, null)]
+          ),
+          h(Suspense, { fallback: h('i', null, 'Loading') }, [h(Lazy, null)])
+        ])
+      )
+    ).toBe('<div><p>broken</p><i>Loading</i></div>');
+
+    expect(() => renderToString(h(Lazy, null))).toThrow(
+      'outside of a Suspense boundary'
+    );
+  });
+});
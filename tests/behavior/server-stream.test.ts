@@ -0,0 +1,215 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { h, ErrorBoundary, Suspense, lazy } from '../../src/index.js';
+import type { LazyModule, VNode } from '../../src/index.js';
+import { renderToStream, renderToString } from '../../src/server.js';
+
+/**
+ * Read a stream to the end, as decoded chunks.
+ */
+async function readChunks(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    chunks.push(decoder.decode(value));
+  }
+}
+
+/**
+ * Lazy component that loads when `resolve()` is called.
+ */
+function deferred(render: () => VNode) {
+  let resolve = () => {};
+  const promise = new Promise<LazyModule<Record<string, unknown>>>(done => {
+    resolve = () => done(render);
+  });
+
+  return { Component: lazy(() => promise), resolve: () => resolve() };
+}
+
+describe('Weave – renderToStream', () => {
+  const list = (count: number) =>
+    h(
+      'ul',
+      null,
+      Array.from({ length: count }, (_, i) => h('li', null, `item ${i}`))
+    );
+
+  it('streams the same markup as renderToString, in pieces', async () => {
+    const chunks = await readChunks(
+      renderToStream(list(200), { highWaterMark: 256 })
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(renderToString(list(200)));
+  });
+
+  it('pauses rendering while the reader is behind', async () => {
+    const render = vi.fn((i: number) => h('li', null, String(i)));
+    const Row = ({ i }: { i: number }) => render(i);
+
+    const stream = renderToStream(
+      h(
+        'ul',
+        null,
+        Array.from({ length: 500 }, (_, i) => h(Row, { i }))
+      ),
+      { highWaterMark: 64 }
+    );
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(render.mock.calls.length).toBeGreaterThan(0);
+    expect(render.mock.calls.length).toBeLessThan(50);
+
+    await readChunks(stream);
+    expect(render).toHaveBeenCalledTimes(500);
+  });
+
+  it('sends suspended content later, out of order', async () => {
+    const first = deferred(() => h('p', null, 'first'));
+    const second = deferred(() => h('p', null, 'second'));
+
+    const stream = renderToStream(
+      h('main', null, [
+        h(Suspense, { fallback: h('i', null, 'Loading 1') }, [
+          h(first.Component, null)
+        ]),
+        h(Suspense, { fallback: h('i', null, 'Loading 2') }, [
+          h(second.Component, null)
+        ])
+      ])
+    );
+
+    const reading = readChunks(stream);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    second.resolve();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    first.resolve();
+
+    const html = (await reading).join('');
+
+    expect(html).toContain(
+      '<main><!--weave:0--><i>Loading 1</i><!--/weave:0-->' +
+        '<!--weave:1--><i>Loading 2</i><!--/weave:1--></main>'
+    );
+    expect(html.indexOf('<template id="weave:1"><p>second</p></template>')).toBeLessThan(
+      html.indexOf('<template id="weave:0"><p>first</p></template>')
+    );
+    expect(html.match(/function \$weave/g)).toHaveLength(1);
+    expect(html).toContain('<script>$weave("weave:0")</script>');
+  });
+
+  it('renders content that suspends again when it is ready', async () => {
+    const outer = deferred(() => h(inner.Component, null));
+    const inner = deferred(() => h('b', null, 'done'));
+
+    const reading = readChunks(
+      renderToStream(
+        h(Suspense, { fallback: h('i', null, '…') }, [h(outer.Component, null)])
+      )
+    );
+
+    outer.resolve();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    inner.resolve();
+
+    expect((await reading).join('')).toContain(
+      '<template id="weave:0"><b>done</b></template>'
+    );
+  });
+
+  it('reports errors of late content and keeps the fallback', async () => {
+    const errors: unknown[] = [];
+    const Failing = lazy(() => Promise.reject(new Error('load failed')));
+
+    const html = (
+      await readChunks(
+        renderToStream(
+          h(Suspense, { fallback: h('i', null, '…') }, [h(Failing, null)]),
+          { onError: error => errors.push(error) }
+        )
+      )
+    ).join('');
+
+    expect(html).toBe('<!--weave:0--><i>…</i><!--/weave:0-->');
+    expect((errors[0] as Error).message).toBe('load failed');
+  });
+
+  it('streams the markup of boundaries before they are done', async () => {
+    const stream = renderToStream(
+      h(ErrorBoundary, { fallback: () => h('p', null, 'fallback') }, [list(2000)]),
+      { highWaterMark: 1024 }
+    );
+    const chunks = await readChunks(stream);
+
+    expect(chunks.length).toBeGreaterThan(10);
+    expect(chunks.join('')).toBe(
+      `<!--weave:0-->${renderToString(list(2000))}<!--/weave:0-->`
+    );
+  });
+
+  it('replaces the sent markup of a boundary that fails later', async () => {
+    function Broken(): VNode {
+      throw new Error('broken');
+    }
+
+    const html = (
+      await readChunks(
+        renderToStream(
+          h('div', null, [
+            h(ErrorBoundary, { fallback: () => h('p', null, 'fallback') }, [
+              h('ul', null, [list(50), h(Broken, null)])
+            ])
+          ]),
+          { highWaterMark: 16 }
+        )
+      )
+    ).join('');
+
+    // What was left open is closed around the placeholder
+    expect(html).toMatch(/^<div><!--weave:0--><ul><ul>.*<\/ul><\/ul><!--\/weave:0--><\/div>/);
+    expect(html).toContain(
+      '<template id="weave:0"><p>fallback</p></template><script>$weave("weave:0")</script>'
+    );
+  });
+
+  it('holds back boundaries that fail before their markup is sent', async () => {
+    function Broken(): VNode {
+      throw new Error('broken');
+    }
+
+    const chunks = await readChunks(
+      renderToStream(
+        h('div', null, [
+          h(ErrorBoundary, { fallback: () => h('p', null, 'fallback') }, [
+            h(Broken, null),
+            list(50)
+          ])
+        ])
+      )
+    );
+
+    expect(chunks.join('')).toBe('<div><p>fallback</p></div>');
+  });
+
+  it('measures chunks in encoded bytes', async () => {
+    const text = '€'.repeat(100);
+    const chunks = await readChunks(
+      renderToStream(
+        h('ul', null, Array.from({ length: 50 }, () => h('li', null, text))),
+        { highWaterMark: 1024 }
+      )
+    );
+
+    const encoder = new TextEncoder();
+    const sizes = chunks.map(chunk => encoder.encode(chunk).byteLength);
+
+    // A chunk stops at the first subtree past the limit
+    expect(sizes.slice(0, -1).every(size => size >= 1024 && size < 1024 + 320)).toBe(true);
+  });
+});
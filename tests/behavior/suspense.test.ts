@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  h,
+  mount,
+  lazy,
+  Suspense,
+  ErrorBoundary,
+  useState
+} from '../../src/index.js';
+import type { Component, ComponentProps, VNode } from '../../src/index.js';
+
+/**
+ * Wait until pending promises and scheduled renders have run.
+ */
+const settle = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * A module load that resolves when the test says so.
+ */
+function deferred<P>() {
+  let resolve: (component: Component<P>) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+
+  const promise = new Promise<{ default: Component<P> }>((res, rej) => {
+    resolve = component => res({ default: component });
+    reject = rej;
+  });
+
+  return { load: () => promise, resolve, reject };
+}
+
+describe('Weave – lazy components and Suspense', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  function Panel(props: ComponentProps<{ title: string }>): VNode {
+    return h('section', null, props.title);
+  }
+
+  it('shows the fallback until the component has loaded', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+
+    mount(
+      h('div', null, [
+        h('h1', null, 'Dashboard'),
+        h(Suspense, { fallback: h('p', null, 'Loading') }, [
+          h(LazyPanel, { title: 'Sales' })
+        ])
+      ]),
+      container
+    );
+
+    expect(container.textContent).toBe('DashboardLoading');
+
+    module.resolve(Panel);
+    await settle();
+
+    expect(container.textContent).toBe('DashboardSales');
+    expect(container.querySelector('p')).toBeNull();
+  });
+
+  it('suspends on update and keeps the fallback while waiting', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+    const spinner = h('p', null, 'Loading');
+
+    const view = (title: string | null) =>
+      h(Suspense, { fallback: spinner }, [
+        title === null ? h('b', null, 'static') : h(LazyPanel, { title })
+      ]);
+
+    const root = mount(view(null), container);
+    expect(container.textContent).toBe('static');
+
+    root.update(view('A'));
+    expect(container.textContent).toBe('Loading');
+
+    // Still waiting: the children suspend again
+    root.update(view('B'));
+    expect(container.textContent).toBe('Loading');
+
+    module.resolve(Panel);
+    await settle();
+
+    // The latest props win
+    expect(container.textContent).toBe('B');
+  });
+
+  it('shows children that no longer suspend right away', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+
+    const view = (lazyChild: boolean) =>
+      h(Suspense, { fallback: h('i', null, 'load') }, [
+        lazyChild ? h(LazyPanel, { title: 'A' }) : h('b', null, 'other')
+      ]);
+
+    const root = mount(view(true), container);
+    expect(container.innerHTML).toBe('<i>load</i>');
+
+    // The old load never settles
+    root.update(view(false));
+    expect(container.innerHTML).toBe('<b>other</b>');
+
+    root.update(view(true));
+    expect(container.innerHTML).toBe('<i>load</i>');
+  });
+
+  it('does not update a boundary removed before loading finished', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+
+    const view = (show: boolean) =>
+      h('div', null, [
+        show
+          ? h(Suspense, { fallback: h('p', null, 'Loading') }, [
+              h(LazyPanel, { title: 'Sales' })
+            ])
+          : h('span', null, 'gone')
+      ]);
+
+    const root = mount(view(true), container);
+    root.update(view(false));
+
+    module.resolve(Panel);
+    await settle();
+
+    expect(container.textContent).toBe('gone');
+  });
+
+  it('keeps the state of components around the boundary', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+    let increment = () => {};
+
+    function Counter(): VNode {
+      const [count, setCount] = useState(0);
+      increment = () => setCount(c => c + 1);
+
+      return h('div', null, [
+        h('span', null, String(count)),
+        h(Suspense, { fallback: null }, [h(LazyPanel, { title: 'Sales' })])
+      ]);
+    }
+
+    mount(h(Counter, null), container);
+    increment();
+    await settle();
+
+    expect(container.textContent).toBe('1');
+
+    module.resolve(Panel);
+    await settle();
+
+    expect(container.textContent).toBe('1Sales');
+  });
+
+  it('passes load failures to error boundaries', async () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+
+    mount(
+      h(ErrorBoundary, { fallback: () => h('p', null, 'Failed') }, [
+        h(Suspense, { fallback: h('p', null, 'Loading') }, [
+          h(LazyPanel, { title: 'Sales' })
+        ])
+      ]),
+      container
+    );
+
+    module.reject(new Error('network'));
+    await settle();
+
+    expect(container.textContent).toBe('Failed');
+  });
+
+  it('reports suspensions outside of a Suspense boundary', () => {
+    const module = deferred<{ title: string }>();
+    const LazyPanel = lazy(module.load);
+    const errors: unknown[] = [];
+
+    mount(h(LazyPanel, { title: 'Sales' }), container, {
+      onError: error => errors.push(error)
+    });
+
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toMatch(/Suspense/);
+  });
+});
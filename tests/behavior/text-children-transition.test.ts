@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, Fragment } from '../../src/index.js';
+
+describe('Weave – text / element children transitions', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  it('replaces text with element children', () => {
+    const vnode1 = h('div', null, 'Loading…');
+    const vnode2 = h('div', null, [
+      h('p', null, 'A'),
+      h('p', null, 'B')
+    ]);
+
+    const root = mount(vnode1, container);
+    const divBefore = container.firstElementChild;
+
+    root.update(vnode2);
+
+    const divAfter = container.firstElementChild as HTMLElement;
+    expect(divAfter).toBe(divBefore);
+    expect(divAfter.innerHTML).toBe('<p>A</p><p>B</p>');
+  });
+
+  it('replaces element children with text', () => {
+    const vnode1 = h('div', null, [
+      h('p', null, 'A'),
+      h('p', null, 'B')
+    ]);
+    const vnode2 = h('div', null, 'Empty');
+
+    const root = mount(vnode1, container);
+    root.update(vnode2);
+
+    const div = container.firstElementChild as HTMLElement;
+    expect(div.innerHTML).toBe('Empty');
+    expect(div.childNodes.length).toBe(1);
+  });
+
+  it('removes text when children become null', () => {
+    const vnode1 = h('div', null, 'Hello');
+    const vnode2 = h('div', null);
+
+    const root = mount(vnode1, container);
+    root.update(vnode2);
+
+    const div = container.firstElementChild as HTMLElement;
+    expect(div.childNodes.length).toBe(0);
+  });
+
+  it('adds text when children were null', () => {
+    const vnode1 = h('div', null);
+    const vnode2 = h('div', null, 'Hello');
+
+    const root = mount(vnode1, container);
+    root.update(vnode2);
+
+    const div = container.firstElementChild as HTMLElement;
+    expect(div.innerHTML).toBe('Hello');
+  });
+
+  it('round-trips between text, elements and null', () => {
+    const states = [
+      h('div', null, 'Loading…'),
+      h('div', null, [h('span', null, 'Done')]),
+      h('div', null, 'Reloading…'),
+      h('div', null),
+      h('div', null, [h('span', null, 'Again')])
+    ];
+
+    const root = mount(states[0]!, container);
+    const div = container.firstElementChild as HTMLElement;
+
+    root.update(states[1]!);
+    expect(div.innerHTML).toBe('<span>Done</span>');
+
+    root.update(states[2]!);
+    expect(div.innerHTML).toBe('Reloading…');
+
+    root.update(states[3]!);
+    expect(div.innerHTML).toBe('');
+
+    root.update(states[4]!);
+    expect(div.innerHTML).toBe('<span>Again</span>');
+  });
+
+  it('keeps fragment text in place between siblings', () => {
+    const vnode1 = h('div', null, [
+      h('b', null, 'start'),
+      h(Fragment, null, 'middle'),
+      h('b', null, 'end')
+    ]);
+    const vnode2 = h('div', null, [
+      h('b', null, 'start'),
+      h(Fragment, null, [h('i', null, 'x'), h('i', null, 'y')]),
+      h('b', null, 'end')
+    ]);
+
+    const root = mount(vnode1, container);
+    const div = container.firstElementChild as HTMLElement;
+
+    root.update(vnode2);
+    expect(div.innerHTML).toBe('<b>start</b><i>x</i><i>y</i><b>end</b>');
+
+    root.update(vnode1);
+    expect(div.innerHTML).toBe('<b>start</b>middle<b>end</b>');
+  });
+
+  it('updates props of a node with text children', () => {
+    const vnode1 = h('div', { class: 'a' }, 'Hello');
+    const vnode2 = h('div', { class: 'b' }, 'Hello');
+
+    const root = mount(vnode1, container);
+    root.update(vnode2);
+
+    const div = container.firstElementChild as HTMLElement;
+    expect(div.getAttribute('class')).toBe('b');
+  });
+});
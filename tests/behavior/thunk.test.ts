@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount, thunk } from '../../src/index.js';
+import type { VNode } from '../../src/index.js';
+
+describe('Weave – thunks', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  interface Row {
+    id: number;
+    label: string;
+  }
+
+  it('skips rendering and diffing rows whose arguments did not change', () => {
+    let renders = 0;
+
+    const renderRow = (row: Row, selected: boolean): VNode => {
+      renders++;
+      return h('tr', { class: selected ? 'selected' : null }, [
+        h('td', null, row.label)
+      ]);
+    };
+
+    const rows: Row[] = [
+      { id: 1, label: 'one' },
+      { id: 2, label: 'two' },
+      { id: 3, label: 'three' }
+    ];
+
+    const table = (selectedId: number) =>
+      h('table', null, rows.map(row => thunk(row.id, renderRow, row, row.id === selectedId)));
+
+    const root = mount(table(1), container);
+    expect(renders).toBe(3);
+
+    const rowsBefore = [...container.querySelectorAll('tr')];
+    const setPropsBefore = root.metrics.patches.byType.SET_PROP;
+
+    root.update(table(2));
+
+    // Only the two rows whose `selected` flag changed re-render
+    expect(renders).toBe(5);
+    expect(root.metrics.patches.byType.SET_PROP - setPropsBefore).toBe(2);
+    expect([...container.querySelectorAll('tr')]).toEqual(rowsBefore);
+    expect(container.querySelector('.selected')!.textContent).toBe('two');
+  });
+
+  it('keeps reused thunks addressable by later updates', () => {
+    const renderItem = (label: string): VNode => h('li', null, label);
+    const list = (labels: string[]) =>
+      h('ul', null, labels.map(label => thunk(label, renderItem, label)));
+
+    const root = mount(list(['a', 'b', 'c']), container);
+
+    root.update(list(['a', 'b', 'c']));
+    root.update(list(['c', 'a']));
+
+    expect(container.textContent).toBe('ca');
+  });
+
+  it('emits no patches for thunks whose arguments did not change', () => {
+    const renderItem = (label: string): VNode => h('p', null, label);
+
+    const root = mount(thunk('item', renderItem, 'a'), container);
+    const paragraph = container.firstChild;
+    const totalBefore = root.metrics.patches.total;
+
+    root.update(thunk('item', renderItem, 'a'));
+    root.update(thunk('item', renderItem, 'a'));
+    expect(root.metrics.patches.total).toBe(totalBefore);
+
+    // The reused thunks are still found by later patches
+    root.update(thunk('item', renderItem, 'b'));
+    expect(container.firstChild).toBe(paragraph);
+    expect(container.textContent).toBe('b');
+
+    root.update(h('ul', null, [thunk('item', renderItem, 'b')]));
+    root.update(h('ul', null, [thunk('item', renderItem, 'b')]));
+    root.update(h('ul', null, []));
+    expect(container.innerHTML).toBe('<ul></ul>');
+  });
+
+  it('emits no patches when the same VNode is passed again', () => {
+    const vnode = h('div', null, [h('p', null, 'A'), h('p', null, 'B')]);
+
+    const root = mount(vnode, container);
+    const totalBefore = root.metrics.patches.total;
+
+    root.update(vnode);
+
+    expect(root.metrics.patches.total).toBe(totalBefore);
+    expect(container.textContent).toBe('AB');
+  });
+});
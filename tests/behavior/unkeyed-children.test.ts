@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { h, mount } from '../../src/index.js';
+import { diff } from '../../src/core/diff.js';
+
+describe('Weave – unkeyed children', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  const rows = (count: number) =>
+    Array.from({ length: count }, (_, i) => h('li', null, `row ${i}`));
+
+  it('inserts an unkeyed element at the top with a single INSERT', () => {
+    const vnode1 = h('ul', null, rows(50));
+    const vnode2 = h('ul', null, [h('p', null, 'header'), ...rows(50)]);
+
+    const patches = diff(vnode1, vnode2);
+    const structural = patches.filter(p => p.type !== 'UPDATE');
+
+    expect(structural).toHaveLength(1);
+    expect(structural[0]).toMatchObject({ type: 'INSERT', index: 0 });
+  });
+
+  it('keeps sibling identity when an element is inserted at the top', () => {
+    const root = mount(h('ul', null, rows(5)), container);
+
+    const ul = container.firstElementChild as HTMLElement;
+    const before = Array.from(ul.children);
+
+    root.update(h('ul', null, [h('p', null, 'header'), ...rows(5)]));
+
+    expect(ul.children.length).toBe(6);
+    expect(ul.firstElementChild!.tagName.toLowerCase()).toBe('p');
+    expect(Array.from(ul.children).slice(1)).toEqual(before);
+  });
+
+  it('removes an unkeyed element from the top with a single REMOVE', () => {
+    const vnode1 = h('ul', null, [h('p', null, 'header'), ...rows(50)]);
+    const vnode2 = h('ul', null, rows(50));
+
+    const patches = diff(vnode1, vnode2);
+    const structural = patches.filter(p => p.type !== 'UPDATE');
+
+    expect(structural).toHaveLength(1);
+    expect(structural[0]).toMatchObject({ type: 'REMOVE' });
+  });
+
+  it('matches nearby siblings of the same type in the middle', () => {
+    const vnode1 = h('div', null, [
+      h('h1', null, 'title'),
+      h('span', null, 'a'),
+      h('em', null, 'b'),
+      h('footer', null, 'end')
+    ]);
+
+    const vnode2 = h('div', null, [
+      h('h1', null, 'title'),
+      h('em', null, 'b'),
+      h('strong', null, 'c'),
+      h('footer', null, 'end')
+    ]);
+
+    const root = mount(vnode1, container);
+    const div = container.firstElementChild as HTMLElement;
+    const em = div.querySelector('em');
+
+    root.update(vnode2);
+
+    expect(div.innerHTML).toBe(
+      '<h1>title</h1><em>b</em><strong>c</strong><footer>end</footer>'
+    );
+    expect(div.querySelector('em')).toBe(em);
+  });
+
+  it('replaces children of a different type when nothing matches', () => {
+    const root = mount(
+      h('div', null, [h('span', null, 'a'), h('span', null, 'b')]),
+      container
+    );
+    const div = container.firstElementChild as HTMLElement;
+
+    root.update(h('div', null, [h('b', null, 'x'), h('i', null, 'y')]));
+
+    expect(div.innerHTML).toBe('<b>x</b><i>y</i>');
+  });
+});
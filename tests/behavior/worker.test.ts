@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { h, mount, connectWorker } from '../../src/index.js';
+import { createWorkerRoot } from '../../src/worker.js';
+import type { SerializedEvent, VNode, WorkerMessage } from '../../src/worker.js';
+
+/**
+ * Handlers in a worker receive serialized events,
+ * while DOM props are typed with real events.
+ */
+const serialized = (event: Event) => event as unknown as SerializedEvent;
+
+describe('Weave – worker protocol', () => {
+  let container: HTMLElement;
+  let channel: MessageChannel;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    channel = new MessageChannel();
+  });
+
+  afterEach(() => {
+    channel.port1.close();
+    channel.port2.close();
+  });
+
+  /**
+   * Wait until messages posted so far have been delivered.
+   *
+   * Each port delivers in order, so a marker sent to the
+   * main thread and back arrives after both directions.
+   */
+  const settle = () =>
+    new Promise<void>(resolve => {
+      const { port1, port2 } = channel;
+      const marker = { type: 'test:settle' };
+
+      const back = (event: MessageEvent) => {
+        if ((event.data as typeof marker).type !== marker.type) return;
+        port1.removeEventListener('message', back);
+        resolve();
+      };
+      const forth = (event: MessageEvent) => {
+        if ((event.data as typeof marker).type !== marker.type) return;
+        port2.removeEventListener('message', forth);
+        port2.postMessage(marker);
+      };
+
+      port1.addEventListener('message', back);
+      port2.addEventListener('message', forth);
+      port1.start();
+      port2.start();
+      port1.postMessage(marker);
+    });
+
+  // port1 plays the worker, port2 the main thread
+  const connect = () => {
+    const worker = createWorkerRoot(channel.port1);
+    const connection = connectWorker(channel.port2, mount(null, container));
+    return { worker, connection };
+  };
+
+  const list = (keys: string[]) =>
+    h(
+      'ul',
+      null,
+      keys.map(key => h('li', { key }, key))
+    );
+
+  it('renders and updates a tree diffed in the worker', async () => {
+    const { worker } = connect();
+
+    worker.update(list(['a', 'b', 'c']));
+    await settle();
+
+    const ul = container.firstElementChild as HTMLElement;
+    const [a, b, c] = Array.from(ul.children);
+    expect(ul.textContent).toBe('abc');
+
+    worker.update(list(['c', 'a', 'b', 'd']));
+    await settle();
+
+    expect(ul.textContent).toBe('cabd');
+    expect(Array.from(ul.children).slice(0, 3)).toEqual([c, a, b]);
+    expect(worker.metrics.updates).toBe(2);
+  });
+
+  it('forwards DOM events to handlers in the worker', async () => {
+    const { worker } = connect();
+    const received: SerializedEvent[] = [];
+
+    const view = (count: number): VNode =>
+      h(
+        'button',
+        {
+          onClick: event => {
+            received.push(serialized(event));
+            worker.update(view(count + 1));
+          }
+        },
+        String(count)
+      );
+
+    worker.update(view(0));
+    await settle();
+
+    const button = container.firstElementChild as HTMLElement;
+    button.click();
+    await settle();
+    await settle();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.type).toBe('click');
+    expect(button.textContent).toBe('1');
+
+    // The replaced handler is the one that runs now
+    button.click();
+    await settle();
+    await settle();
+
+    expect(received).toHaveLength(2);
+    expect(button.textContent).toBe('2');
+  });
+
+  it('sends the state of the event target', async () => {
+    const { worker } = connect();
+    let value: unknown = null;
+
+    worker.update(
+      h('input', {
+        onInput: event => {
+          value = serialized(event).target.value;
+        }
+      })
+    );
+    await settle();
+
+    const input = container.firstElementChild as HTMLInputElement;
+    input.value = 'hello';
+    input.dispatchEvent(new Event('input'));
+    await settle();
+
+    expect(value).toBe('hello');
+  });
+
+  it('clears the container on unmount and stops on disconnect', async () => {
+    const { worker, connection } = connect();
+
+    worker.update(list(['a']));
+    await settle();
+    expect(container.textContent).toBe('a');
+
+    worker.unmount();
+    await settle();
+    expect(container.childNodes.length).toBe(0);
+
+    connection.disconnect();
+
+    const next = createWorkerRoot(channel.port1);
+    next.update(list(['b']));
+    await settle();
+    expect(container.childNodes.length).toBe(0);
+  });
+
+  it('keeps handlers nested in prop values', async () => {
+    const worker = createWorkerRoot(channel.port1);
+    const posted: WorkerMessage[] = [];
+    channel.port2.addEventListener('message', event => {
+      posted.push(event.data as WorkerMessage);
+    });
+    channel.port2.start();
+
+    let selected = 0;
+    const onSelect = () => selected++;
+    const view = (label: string) =>
+      h('x-menu', { title: label, menu: { items: [{ onSelect }] } });
+
+    worker.update(view('a'));
+    worker.update(view('b'));
+    await settle();
+
+    const first = posted[0]!;
+    const replace = first.type === 'weave:patches' ? first.patches[0]! : null;
+    const node = replace?.type === 'REPLACE' ? replace.node : null;
+    const menu = node!.props!['menu'] as {
+      items: [{ onSelect: { $handler: number } }];
+    };
+
+    const message: WorkerMessage = {
+      type: 'weave:event',
+      handler: menu.items[0].onSelect.$handler,
+      event: { type: 'select', target: {} }
+    };
+    channel.port2.postMessage(message);
+    await settle();
+
+    expect(selected).toBe(1);
+  });
+
+  it('rejects components without changing the current tree', async () => {
+    const { worker } = connect();
+    const Item = () => h('li', null, 'item');
+
+    worker.update(list(['a']));
+    expect(() => worker.update(h('ul', null, [h(Item, null)]))).toThrow(
+      /only elements, fragments and text can be rendered in a worker/
+    );
+
+    worker.update(list(['a', 'b']));
+    await settle();
+
+    expect(container.textContent).toBe('ab');
+  });
+});
@@ -0,0 +1,19 @@
+// Type-checked by tests/behavior/jsx-types.test.ts, compiled
+// with "jsx": "react-jsx" and "jsxImportSource": "weave".
+// Like an app, it imports nothing but the JSX runtime.
+
+export const page = (
+  <main class="page">
+    <input value="a" onInput={event => event.currentTarget.value} />
+    <svg viewBox="0 0 10 10">
+      <circle cx={5} cy={5} r={4} />
+    </svg>
+    <my-widget mode="compact">custom</my-widget>
+  </main>
+);
+
+// @ts-expect-error typo in an event name
+export const typo = <div onlick={() => {}} />;
+
+// @ts-expect-error wrong event type for an input
+export const wrongEvent = <input onInput={(event: KeyboardEvent) => event.key} />;